@@ -5,6 +5,8 @@ import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { MessageCircle, X, Send, Bot, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { riskBandRange } from '@/lib/riskBands';
+import { abnormalRange, borderlineRange, healthyRange } from '@/lib/clinicalThresholds';
 
 interface Message {
   id: string;
@@ -28,19 +30,19 @@ const FAQ_RESPONSES: { keywords: string[]; response: string }[] = [
   },
   {
     keywords: ['voice', 'speech', 'how voice', 'voice analysis', 'voice test'],
-    response: "Voice analysis can detect subtle changes in speech patterns that may indicate Parkinson's disease. We analyze several features:\n\n• **Jitter**: Frequency variation in voice (healthy < 1.04%)\n• **Shimmer**: Amplitude variation (healthy < 3.81%)\n• **HNR**: Harmonics-to-Noise Ratio (healthy > 20 dB)\n• **Pitch Variation**: Voice stability (healthy > 15 Hz)\n\nPeople with Parkinson's often show increased jitter and shimmer, and decreased HNR."
+    response: `Voice analysis can detect subtle changes in speech patterns that may indicate Parkinson's disease. We analyze several features:\n\n• **Jitter**: Frequency variation in voice (healthy ${healthyRange('jitter')})\n• **Shimmer**: Amplitude variation (healthy ${healthyRange('shimmer')})\n• **HNR**: Harmonics-to-Noise Ratio (healthy ${healthyRange('hnr')})\n• **Pitch Variation**: Voice stability (healthy ${healthyRange('pitchVariation')})\n\nThese are the general ranges; your results are rated against ranges adjusted for your sex and age when they're in your profile.\n\nPeople with Parkinson's often show increased jitter and shimmer, and decreased HNR.`
   },
   {
     keywords: ['jitter', 'what is jitter'],
-    response: "**Jitter** measures the variation in the frequency (pitch) of your voice from cycle to cycle. It reflects how stable your vocal cords vibrate.\n\n• **Healthy range**: < 1.04%\n• **Borderline**: 1.04% - 1.5%\n• **Abnormal**: > 1.5%\n\nHigher jitter values may indicate reduced control over vocal cord movement, which can be associated with Parkinson's disease."
+    response: `**Jitter** measures the variation in the frequency (pitch) of your voice from cycle to cycle. It reflects how stable your vocal cords vibrate.\n\n• **Healthy range**: ${healthyRange('jitter')}\n• **Borderline**: ${borderlineRange('jitter')}\n• **Abnormal**: ${abnormalRange('jitter')}\n\nHigher jitter values may indicate reduced control over vocal cord movement, which can be associated with Parkinson's disease.`
   },
   {
     keywords: ['shimmer', 'what is shimmer'],
-    response: "**Shimmer** measures the variation in the amplitude (loudness) of your voice from cycle to cycle.\n\n• **Healthy range**: < 3.81%\n• **Borderline**: 3.81% - 5.0%\n• **Abnormal**: > 5.0%\n\nIncreased shimmer can indicate instability in vocal cord function, which may be an early sign of neurological changes."
+    response: `**Shimmer** measures the variation in the amplitude (loudness) of your voice from cycle to cycle.\n\n• **Healthy range**: ${healthyRange('shimmer')}\n• **Borderline**: ${borderlineRange('shimmer')}\n• **Abnormal**: ${abnormalRange('shimmer')}\n\nIncreased shimmer can indicate instability in vocal cord function, which may be an early sign of neurological changes.`
   },
   {
     keywords: ['hnr', 'harmonics', 'noise ratio'],
-    response: "**HNR (Harmonics-to-Noise Ratio)** measures the ratio of harmonic sound to noise in your voice. A higher HNR indicates a clearer, less breathy voice.\n\n• **Healthy range**: > 20 dB\n• **Borderline**: 15 - 20 dB\n• **Abnormal**: < 15 dB\n\nLower HNR values indicate more noise/breathiness in speech, which can be associated with Parkinson's disease."
+    response: `**HNR (Harmonics-to-Noise Ratio)** measures the ratio of harmonic sound to noise in your voice. A higher HNR indicates a clearer, less breathy voice.\n\n• **Healthy range**: ${healthyRange('hnr')}\n• **Borderline**: ${borderlineRange('hnr')}\n• **Abnormal**: ${abnormalRange('hnr')}\n\nLower HNR values indicate more noise/breathiness in speech, which can be associated with Parkinson's disease.`
   },
   {
     keywords: ['accurate', 'accuracy', 'reliable', 'how accurate'],
@@ -56,7 +58,7 @@ const FAQ_RESPONSES: { keywords: string[]; response: string }[] = [
   },
   {
     keywords: ['risk', 'low risk', 'medium risk', 'high risk', 'score'],
-    response: "Your risk score is calculated based on your voice features:\n\n• **Low Risk (0-30%)**: Voice features are within healthy ranges. Continue regular monitoring.\n• **Medium Risk (30-60%)**: Some features show borderline values. Consider consulting a healthcare provider.\n• **High Risk (60-100%)**: Multiple features show concerning values. We recommend consulting a neurologist.\n\nRemember, this is a screening tool - only a medical professional can provide a diagnosis."
+    response: `Your risk score is calculated based on your voice features:\n\n• **Low Risk (${riskBandRange('low')})**: Voice features are within healthy ranges. Continue regular monitoring.\n• **Medium Risk (${riskBandRange('medium')})**: Some features show borderline values. Consider consulting a healthcare provider.\n• **High Risk (${riskBandRange('high')})**: Multiple features show concerning values. We recommend consulting a neurologist.\n\nRemember, this is a screening tool - only a medical professional can provide a diagnosis.`
   },
   {
     keywords: ['help', 'support', 'contact', 'doctor'],
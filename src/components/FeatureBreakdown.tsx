@@ -1,90 +1,52 @@
-import { VoiceFeatures } from '@/types';
-import { CheckCircle, AlertTriangle, XCircle, Info } from 'lucide-react';
+import { Demographics, VoiceFeatures } from '@/types';
+import {
+  classifyFeature,
+  describeNorms,
+  FeatureStatus,
+  formatMeasure,
+  getNorms,
+  healthyRange,
+  PERTURBATION_LIMITS,
+  THRESHOLD_FEATURE_INFO,
+  THRESHOLD_FEATURES,
+} from '@/lib/clinicalThresholds';
+import { BASELINE_CONFIG, BaselineChange, compareToBaseline, formatZ, isBaselineSession, PatientBaseline } from '@/lib/baseline';
+import { CheckCircle, AlertTriangle, XCircle, Info, MinusCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 
 interface FeatureBreakdownProps {
   features: VoiceFeatures;
+  demographics?: Demographics; // Selects sex- and age-specific norms
+  baseline?: PatientBaseline | null; // Null while the baseline is still being collected
+  sessionId?: string;                // Session these features belong to, to tell baseline sessions apart
 }
 
-interface ThresholdConfig {
-  healthy: number;
-  warning: number;
-  critical: number;
-  label: string;
-  unit: string;
-  description: string;
-  healthyRange: string;
-  inverted?: boolean;
-}
-
-const CLINICAL_THRESHOLDS: Record<string, ThresholdConfig> = {
-  jitter: { 
-    healthy: 1.04, 
-    warning: 1.5, 
-    critical: 2.5,
-    label: 'Jitter',
-    unit: '%',
-    description: 'Measures cycle-to-cycle frequency variation. Higher values may indicate vocal cord irregularity.',
-    healthyRange: '< 1.04%',
-    inverted: false
-  },
-  shimmer: { 
-    healthy: 3.81, 
-    warning: 5.0, 
-    critical: 8.0,
-    label: 'Shimmer',
-    unit: '%',
-    description: 'Measures cycle-to-cycle amplitude variation. Elevated values suggest voice instability.',
-    healthyRange: '< 3.81%',
-    inverted: false
-  },
-  hnr: { 
-    healthy: 20, 
-    warning: 15, 
-    critical: 10,
-    label: 'HNR (Harmonics-to-Noise)',
-    unit: 'dB',
-    description: 'Ratio of harmonic sound to noise. Higher values indicate clearer voice quality.',
-    healthyRange: '> 20 dB',
-    inverted: true
-  },
-  pitchVariation: { 
-    healthy: 15, 
-    warning: 8, 
-    critical: 5,
-    label: 'Pitch Variation',
-    unit: 'Hz',
-    description: 'Standard deviation of fundamental frequency. Very low variation may indicate reduced vocal flexibility.',
-    healthyRange: '> 15 Hz',
-    inverted: true
-  },
+const STATUS_STYLES: Record<FeatureStatus, { status: string; color: string; bg: string; Icon: typeof CheckCircle }> = {
+  normal: { status: 'Normal', color: 'text-success', bg: 'bg-success/10', Icon: CheckCircle },
+  borderline: { status: 'Borderline', color: 'text-warning', bg: 'bg-warning/10', Icon: AlertTriangle },
+  abnormal: { status: 'Abnormal', color: 'text-destructive', bg: 'bg-destructive/10', Icon: XCircle },
+  unmeasured: { status: 'Not measured', color: 'text-muted-foreground', bg: 'bg-muted', Icon: MinusCircle },
 };
 
-const getFeatureStatus = (key: string, value: number) => {
-  const t = CLINICAL_THRESHOLDS[key as keyof typeof CLINICAL_THRESHOLDS];
-  if (!t) return { status: 'unknown', color: 'text-muted-foreground', bg: 'bg-muted', Icon: Info };
-
-  if (t.inverted) {
-    if (value >= t.healthy) return { status: 'Normal', color: 'text-success', bg: 'bg-success/10', Icon: CheckCircle };
-    if (value >= t.warning) return { status: 'Borderline', color: 'text-warning', bg: 'bg-warning/10', Icon: AlertTriangle };
-    return { status: 'Abnormal', color: 'text-destructive', bg: 'bg-destructive/10', Icon: XCircle };
-  } else {
-    if (value <= t.healthy) return { status: 'Normal', color: 'text-success', bg: 'bg-success/10', Icon: CheckCircle };
-    if (value <= t.warning) return { status: 'Borderline', color: 'text-warning', bg: 'bg-warning/10', Icon: AlertTriangle };
-    return { status: 'Abnormal', color: 'text-destructive', bg: 'bg-destructive/10', Icon: XCircle };
-  }
+const CHANGE_STYLES: Record<BaselineChange, { label: string; color: string }> = {
+  improved: { label: 'Improved', color: 'text-success' },
+  stable: { label: 'Stable', color: 'text-muted-foreground' },
+  worsened: { label: 'Worsened', color: 'text-destructive' },
 };
 
-const FeatureBreakdown = ({ features }: FeatureBreakdownProps) => {
-  const featureData = [
-    { key: 'jitter', value: features.jitter },
-    { key: 'shimmer', value: features.shimmer },
-    { key: 'hnr', value: features.hnr },
-    { key: 'pitchVariation', value: features.pitchVariation },
-  ];
+const FeatureBreakdown = ({ features, demographics, baseline, sessionId }: FeatureBreakdownProps) => {
+  const norms = getNorms(demographics);
+  const normsLabel = describeNorms(demographics);
+  const featureData = THRESHOLD_FEATURES.map(key => ({ key, value: features[key] }));
+  const deviation = baseline ? compareToBaseline(baseline, features) : null;
+  const partOfBaseline = !!sessionId && isBaselineSession(baseline, sessionId);
 
-  const normalCount = featureData.filter(f => getFeatureStatus(f.key, f.value).status === 'Normal').length;
+  const normalCount = featureData.filter(f => classifyFeature(f.key, f.value, norms) === 'normal').length;
+
+  const variants = PERTURBATION_LIMITS
+    .map(v => ({ ...v, value: features[v.key] as number | undefined }))
+    .filter(v => typeof v.value === 'number');
 
   return (
     <div className="space-y-4">
@@ -94,11 +56,37 @@ const FeatureBreakdown = ({ features }: FeatureBreakdownProps) => {
           {normalCount}/4 Normal
         </Badge>
       </div>
+      {normsLabel && (
+        <p className="text-xs text-muted-foreground">Healthy ranges adjusted for: {normsLabel}</p>
+      )}
+
+      {/* Change from the patient's own baseline */}
+      {deviation && (
+        <div className="flex items-center justify-between p-3 rounded-lg border bg-muted/50 text-sm">
+          <div>
+            <p className="font-medium">Change from your baseline</p>
+            <p className="text-xs text-muted-foreground">
+              {partOfBaseline
+                ? 'This test is part of your baseline'
+                : `Compared with your first ${baseline.sessionIds.length} good-quality tests`}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className={`font-semibold ${CHANGE_STYLES[deviation.change].color}`}>{formatZ(deviation.changeScore)}</p>
+            <p className={`text-xs ${CHANGE_STYLES[deviation.change].color}`}>{CHANGE_STYLES[deviation.change].label}</p>
+          </div>
+        </div>
+      )}
+      {baseline === null && (
+        <p className="text-xs text-muted-foreground">
+          Your personal baseline is built from your first {BASELINE_CONFIG.SESSIONS} good-quality tests; changes from it are shown after {BASELINE_CONFIG.MIN_SESSIONS}.
+        </p>
+      )}
 
       <div className="space-y-3">
         {featureData.map(({ key, value }) => {
-          const threshold = CLINICAL_THRESHOLDS[key as keyof typeof CLINICAL_THRESHOLDS];
-          const status = getFeatureStatus(key, value);
+          const threshold = THRESHOLD_FEATURE_INFO[key];
+          const status = STATUS_STYLES[classifyFeature(key, value, norms)];
           const Icon = status.Icon;
 
           return (
@@ -122,22 +110,52 @@ const FeatureBreakdown = ({ features }: FeatureBreakdownProps) => {
               </div>
               <div className="flex items-center justify-between text-sm">
                 <span className="text-muted-foreground">
-                  Healthy range: {threshold.healthyRange}
+                  Healthy range: {healthyRange(key, norms)}
                 </span>
                 <span className={`font-semibold ${status.color}`}>
-                  {value.toFixed(2)} {threshold.unit}
+                  {formatMeasure(value, 2, ` ${threshold.unit}`)}
                 </span>
               </div>
+              {deviation && value !== undefined && (
+                <div className="flex items-center justify-between text-xs mt-1">
+                  <span className="text-muted-foreground">
+                    Your baseline: {baseline.features[key].mean.toFixed(2)} ± {baseline.features[key].sd.toFixed(2)} {threshold.unit}
+                  </span>
+                  <span className={deviation.features[key].notable
+                    ? deviation.features[key].adverseZ > 0 ? 'font-medium text-destructive' : 'font-medium text-success'
+                    : 'text-muted-foreground'}>
+                    {formatZ(deviation.features[key].z)}
+                  </span>
+                </div>
+              )}
             </div>
           );
         })}
       </div>
 
+      {/* Perturbation Variants */}
+      {variants.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {variants.map(v => {
+            const elevated = v.value > v.limit;
+            return (
+              <div key={v.key} className="flex items-center justify-between p-2 rounded border text-sm">
+                <span className="text-muted-foreground">{v.label}</span>
+                <span className={`font-semibold ${elevated ? 'text-warning' : 'text-success'}`}>
+                  {v.value.toFixed(v.unit === '%' ? 2 : 3)} {v.unit}
+                  <span className="ml-1 text-xs font-normal text-muted-foreground">(≤ {v.limit})</span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Additional Metrics */}
       <div className="grid grid-cols-3 gap-2 pt-2 border-t">
         <div className="text-center p-2 rounded bg-muted">
           <p className="text-xs text-muted-foreground">Pitch</p>
-          <p className="font-semibold">{features.pitch.toFixed(0)} Hz</p>
+          <p className="font-semibold">{formatMeasure(features.pitch, 0, ' Hz')}</p>
         </div>
         <div className="text-center p-2 rounded bg-muted">
           <p className="text-xs text-muted-foreground">Amplitude</p>
@@ -0,0 +1,69 @@
+import { LivePitchFrame } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { LineChart, Line, XAxis, YAxis, ReferenceArea, ResponsiveContainer } from 'recharts';
+
+interface LivePitchTraceProps {
+  trace: (number | null)[];
+  livePitch: LivePitchFrame | null;
+}
+
+// A steady sustained vowel stays within about a semitone of its own median pitch
+const TARGET_BAND_SEMITONES = 1;
+
+const LivePitchTrace = ({ trace, livePitch }: LivePitchTraceProps) => {
+  const voiced = trace.filter((f): f is number => f !== null).sort((a, b) => a - b);
+  const target = voiced.length > 0 ? voiced[Math.floor(voiced.length / 2)] : null;
+  const bandFactor = Math.pow(2, TARGET_BAND_SEMITONES / 12);
+  const band = target ? { low: target / bandFactor, high: target * bandFactor } : null;
+
+  const data = trace.map((f0, index) => ({ index, f0 }));
+  const current = livePitch?.f0 ?? null;
+  const inBand = current !== null && band !== null && current >= band.low && current <= band.high;
+
+  const status = livePitch?.clipping
+    ? { label: 'Too loud - move the device further away', className: 'text-destructive' }
+    : !livePitch?.voiced
+    ? { label: 'No voice detected', className: 'text-muted-foreground' }
+    : inBand
+    ? { label: 'Steady - keep going', className: 'text-success' }
+    : { label: 'Try to hold your pitch steady', className: 'text-warning' };
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className={status.className}>{status.label}</span>
+        <Badge variant="outline">
+          {current !== null ? `${current.toFixed(0)} Hz` : '-- Hz'}
+        </Badge>
+      </div>
+      <div className="h-32">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <XAxis dataKey="index" hide />
+            <YAxis
+              domain={band ? [Math.floor(band.low * 0.85), Math.ceil(band.high * 1.15)] : [50, 400]}
+              className="text-xs"
+              tick={{ fill: 'hsl(var(--muted-foreground))' }}
+              width={40}
+            />
+            {band && (
+              <ReferenceArea y1={band.low} y2={band.high} fill="hsl(var(--success))" fillOpacity={0.1} />
+            )}
+            <Line
+              type="monotone"
+              dataKey="f0"
+              stroke="hsl(var(--primary))"
+              strokeWidth={2}
+              dot={false}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-center text-muted-foreground">Live Pitch (shaded band = target)</p>
+    </div>
+  );
+};
+
+export default LivePitchTrace;
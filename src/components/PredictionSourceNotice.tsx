@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PREDICTION_SOURCE_LABELS } from '@/lib/models/common';
+import { getFailedPrediction, isPredictionPending, retryFailedPrediction } from '@/lib/predictionQueue';
+import { PredictionResult } from '@/types';
+
+interface PredictionSourceNoticeProps {
+  prediction: PredictionResult;
+  onRetried?: () => void;  // Called after a manual retry, which may have replaced the prediction
+}
+
+// Shown with a result whenever it was not produced by the configured model
+const PredictionSourceNotice = ({ prediction, onRetried }: PredictionSourceNoticeProps) => {
+  const [retrying, setRetrying] = useState(false);
+  if (!prediction.degraded) return null;
+
+  const failed = getFailedPrediction(prediction.recordingId);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      await retryFailedPrediction(prediction.recordingId);
+    } finally {
+      setRetrying(false);
+      onRetried?.();
+    }
+  };
+
+  return (
+    <div className="p-4 rounded-lg border border-warning/50 bg-warning/5">
+      <div className="flex items-center gap-2 mb-2">
+        <AlertTriangle className="h-4 w-4 text-warning" />
+        <h4 className="font-medium">Fallback result</h4>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        The configured prediction model was unavailable, so this score comes from the{' '}
+        {PREDICTION_SOURCE_LABELS[prediction.source].toLowerCase()} ({prediction.modelId} v{prediction.modelVersion}).
+        Interpret it with caution.
+      </p>
+      {prediction.fallbackReason && (
+        <p className="text-xs text-muted-foreground mt-2">Reason: {prediction.fallbackReason}</p>
+      )}
+      {isPredictionPending(prediction.recordingId) && (
+        <p className="text-xs text-muted-foreground mt-1">
+          Queued for re-scoring: the result will be updated automatically once the configured model is reachable.
+        </p>
+      )}
+      {failed && (
+        <div className="mt-2 space-y-2">
+          <p className="text-xs text-destructive">
+            Re-scoring gave up after {failed.attempts} attempts
+            {failed.failedAt && ` on ${new Date(failed.failedAt).toLocaleDateString()}`}
+            {failed.lastError && `. Last error: ${failed.lastError}`}
+          </p>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleRetry} disabled={retrying}>
+            {retrying ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+            Retry re-scoring
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PredictionSourceNotice;
@@ -0,0 +1,37 @@
+import { VOICE_PROTOCOL } from '@/lib/voiceProtocol';
+import { VoiceTaskType } from '@/types';
+import { CheckCircle2, Circle, CircleDot, SkipForward } from 'lucide-react';
+
+export type TaskStepStatus = 'pending' | 'current' | 'done' | 'skipped';
+
+interface ProtocolProgressProps {
+  statuses: Record<VoiceTaskType, TaskStepStatus>;
+}
+
+const ProtocolProgress = ({ statuses }: ProtocolProgressProps) => {
+  return (
+    <ol className="grid grid-cols-5 gap-2">
+      {VOICE_PROTOCOL.map((task, index) => {
+        const status = statuses[task.type];
+        return (
+          <li key={task.type} className="flex flex-col items-center gap-1 text-center">
+            {status === 'done' ? (
+              <CheckCircle2 className="h-5 w-5 text-success" />
+            ) : status === 'skipped' ? (
+              <SkipForward className="h-5 w-5 text-muted-foreground" />
+            ) : status === 'current' ? (
+              <CircleDot className="h-5 w-5 text-primary" />
+            ) : (
+              <Circle className="h-5 w-5 text-muted-foreground" />
+            )}
+            <span className={`text-xs ${status === 'current' ? 'font-medium' : 'text-muted-foreground'}`}>
+              {index + 1}. {task.title}
+            </span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ProtocolProgress;
@@ -20,11 +20,11 @@ const RecordingGuidelines = () => {
             <ul className="space-y-2 text-sm">
               <li className="flex items-start gap-2">
                 <Mic className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
-                <span>Say <strong>"Aahhh"</strong> in a steady, sustained tone</span>
+                <span>Follow the <strong>on-screen prompt</strong> for each task; hold vowels in a steady tone</span>
               </li>
               <li className="flex items-start gap-2">
                 <Clock className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
-                <span>Record for <strong>5-10 seconds</strong> minimum</span>
+                <span>Keep going until the <strong>task timer</strong> ends (10 seconds for most tasks)</span>
               </li>
               <li className="flex items-start gap-2">
                 <Volume2 className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
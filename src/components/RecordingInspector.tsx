@@ -0,0 +1,357 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import SpectrogramCanvas from '@/components/SpectrogramCanvas';
+import { useRecordingAudio } from '@/hooks/useRecordingAudio';
+import { useSpectrogram } from '@/hooks/useSpectrogram';
+import { getVoiceTask } from '@/lib/voiceProtocol';
+import { PitchContour, Spectrogram, TestSession, VoiceRecording } from '@/types';
+
+interface RecordingInspectorProps {
+  session: TestSession;
+}
+
+// Spectrogram is computed up to the highest range; lower ranges crop it
+const FREQUENCY_RANGES = [1000, 2500, 5000];
+const DEFAULT_FREQUENCY_RANGE = 2500;
+
+// Narrowest time window the zoom goes down to (s), a few glottal cycles at low F0
+const MIN_WINDOW = 0.05;
+
+const F0_COLOR = 'hsl(var(--success))';
+const CURSOR_COLOR = 'hsl(var(--destructive))';
+
+interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+// Runs of voiced frames as [start, end] times
+const voicedRegions = (contour: PitchContour | undefined): [number, number][] => {
+  if (!contour) return [];
+  const regions: [number, number][] = [];
+  let start: number | null = null;
+  contour.voicing.forEach((label, i) => {
+    const t = contour.frameOffset + i * contour.frameStep;
+    if (label === 'voiced' && start === null) start = t - contour.frameStep / 2;
+    if (label !== 'voiced' && start !== null) {
+      regions.push([start, t - contour.frameStep / 2]);
+      start = null;
+    }
+  });
+  if (start !== null) regions.push([start, contour.frameOffset + contour.voicing.length * contour.frameStep]);
+  return regions;
+};
+
+// Frames and bins of the spectrogram inside the view
+const cropSpectrogram = (spectrogram: Spectrogram, view: TimeWindow, maxFrequency: number): Spectrogram => {
+  const first = Math.max(0, Math.floor((view.start - spectrogram.frameOffset) / spectrogram.frameStep));
+  const last = Math.min(spectrogram.frames.length, Math.ceil((view.end - spectrogram.frameOffset) / spectrogram.frameStep) + 1);
+  const bins = Math.floor(maxFrequency / spectrogram.frequencyStep) + 1;
+  return {
+    ...spectrogram,
+    frameOffset: spectrogram.frameOffset + first * spectrogram.frameStep,
+    frames: spectrogram.frames.slice(first, last).map(frame => frame.subarray(0, bins)),
+  };
+};
+
+interface WaveformCanvasProps {
+  samples: Float32Array;
+  sampleRate: number;
+  view: TimeWindow;
+  voiced: [number, number][];
+}
+
+// Min/max envelope per pixel column, voiced stretches shaded behind it
+const WaveformCanvas = ({ samples, sampleRate, view, voiced }: WaveformCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const width = Math.max(1, Math.round(canvas.clientWidth * window.devicePixelRatio));
+    const height = Math.max(1, Math.round(canvas.clientHeight * window.devicePixelRatio));
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    const styles = getComputedStyle(canvas);
+    const span = view.end - view.start;
+    const toX = (t: number) => (t - view.start) / span * width;
+
+    context.clearRect(0, 0, width, height);
+    context.fillStyle = `hsl(${styles.getPropertyValue('--primary')} / 0.12)`;
+    for (const [from, to] of voiced) {
+      if (to < view.start || from > view.end) continue;
+      context.fillRect(toX(from), 0, toX(to) - toX(from), height);
+    }
+
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    const scale = peak > 0 ? height / 2 / peak : 0;
+
+    context.fillStyle = `hsl(${styles.getPropertyValue('--foreground')} / 0.8)`;
+    const samplesPerPixel = span * sampleRate / width;
+    for (let x = 0; x < width; x++) {
+      const from = Math.max(0, Math.floor(view.start * sampleRate + x * samplesPerPixel));
+      const to = Math.min(samples.length, Math.max(from + 1, Math.floor(view.start * sampleRate + (x + 1) * samplesPerPixel)));
+      if (from >= samples.length) break;
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = from; i < to; i++) {
+        min = Math.min(min, samples[i]);
+        max = Math.max(max, samples[i]);
+      }
+      context.fillRect(x, height / 2 - max * scale, 1, Math.max(1, (max - min) * scale));
+    }
+  }, [samples, sampleRate, view, voiced]);
+
+  return <canvas ref={canvasRef} className="w-full h-full" />;
+};
+
+const RecordingView = ({ recording }: { recording: VoiceRecording }) => {
+  const audio = useRecordingAudio(recording);
+  const [view, setView] = useState<TimeWindow | null>(null);
+  const [maxFrequency, setMaxFrequency] = useState(DEFAULT_FREQUENCY_RANGE);
+  const [playing, setPlaying] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const ready = audio.status === 'ready' ? audio : null;
+  const duration = ready ? ready.samples.length / ready.sampleRate : 0;
+  const visible = useMemo(() => view ?? { start: 0, end: duration }, [view, duration]);
+  const span = visible.end - visible.start;
+
+  const spectrogram = useSpectrogram(audio, FREQUENCY_RANGES[FREQUENCY_RANGES.length - 1]);
+  const full = spectrogram.status === 'ready' ? spectrogram.spectrogram : null;
+  const cropped = useMemo(
+    () => full && span > 0 ? cropSpectrogram(full, visible, maxFrequency) : null,
+    [full, visible, span, maxFrequency]
+  );
+  const voiced = useMemo(() => voicedRegions(recording.contour), [recording.contour]);
+
+  // Playback through an <audio> element; the cursor follows it every animation frame
+  useEffect(() => {
+    if (!ready) return;
+    const url = URL.createObjectURL(ready.blob);
+    const element = new Audio(url);
+    element.onended = () => setPlaying(false);
+    audioRef.current = element;
+    return () => {
+      element.pause();
+      audioRef.current = null;
+      URL.revokeObjectURL(url);
+    };
+  }, [ready]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame: number;
+    const tick = () => {
+      const t = audioRef.current?.currentTime ?? 0;
+      setCursor(t);
+      // Page the zoomed view along with playback
+      setView(current => {
+        if (!current || t <= current.end) return current;
+        const start = Math.min(t, duration - (current.end - current.start));
+        return { start, end: start + (current.end - current.start) };
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, duration]);
+
+  if (audio.status !== 'ready') {
+    return (
+      <div className="h-48 rounded-lg border bg-muted flex items-center justify-center text-sm text-muted-foreground">
+        {audio.status === 'loading' ? 'Loading audio...' :
+          audio.status === 'error' ? `The audio could not be decoded: ${audio.error}` :
+          'No audio was stored for this recording.'}
+      </div>
+    );
+  }
+
+  const togglePlayback = () => {
+    const element = audioRef.current;
+    if (!element) return;
+    if (playing) {
+      element.pause();
+      setPlaying(false);
+    } else {
+      element.currentTime = cursor >= duration ? 0 : cursor;
+      element.play().then(() => setPlaying(true)).catch(err => console.error('Playback failed:', err));
+    }
+  };
+
+  const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const t = visible.start + (event.clientX - bounds.left) / bounds.width * span;
+    setCursor(t);
+    if (audioRef.current) audioRef.current.currentTime = t;
+  };
+
+  // Zoom around the cursor when it is in view, otherwise around the centre
+  const zoom = (factor: number) => {
+    const nextSpan = Math.min(duration, Math.max(MIN_WINDOW, span * factor));
+    const centre = cursor >= visible.start && cursor <= visible.end ? cursor : visible.start + span / 2;
+    const start = Math.min(Math.max(0, centre - nextSpan / 2), duration - nextSpan);
+    setView(nextSpan >= duration ? null : { start, end: start + nextSpan });
+  };
+
+  const toPercent = (t: number) => `${(t - visible.start) / span * 100}%`;
+  const cursorInView = cursor >= visible.start && cursor <= visible.end;
+
+  const contour = recording.contour;
+  const f0Points = contour
+    ? contour.f0
+        .map((f0, i) => ({ t: contour.frameOffset + i * contour.frameStep, f0 }))
+        .filter(p => p.t >= visible.start && p.t <= visible.end)
+    : [];
+  // Break the line at unvoiced frames
+  const f0Segments: string[] = [];
+  let segment: string[] = [];
+  for (const p of f0Points) {
+    if (p.f0 > 0 && p.f0 <= maxFrequency) {
+      segment.push(`${(p.t - visible.start) / span * 1000},${(1 - p.f0 / maxFrequency) * 1000}`);
+    } else if (segment.length > 0) {
+      f0Segments.push(segment.join(' '));
+      segment = [];
+    }
+  }
+  if (segment.length > 0) f0Segments.push(segment.join(' '));
+
+  return (
+    <div className="space-y-3">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={togglePlayback} className="gap-2">
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            {playing ? 'Pause' : 'Play'}
+          </Button>
+          <span className="text-sm tabular-nums text-muted-foreground">
+            {cursor.toFixed(2)} / {duration.toFixed(2)} s
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoom(0.5)} disabled={span <= MIN_WINDOW} aria-label="Zoom in">
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoom(2)} disabled={!view} aria-label="Zoom out">
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setView(null)} disabled={!view} aria-label="Show whole recording">
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+          {FREQUENCY_RANGES.map(range => (
+            <Button
+              key={range}
+              variant={range === maxFrequency ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8"
+              onClick={() => setMaxFrequency(range)}
+            >
+              {range / 1000} kHz
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Waveform */}
+      <div className="relative h-24 rounded border bg-background cursor-crosshair" onClick={seek}>
+        <WaveformCanvas samples={ready.samples} sampleRate={ready.sampleRate} view={visible} voiced={voiced} />
+        {cursorInView && (
+          <div className="absolute top-0 bottom-0 w-px pointer-events-none" style={{ left: toPercent(cursor), backgroundColor: CURSOR_COLOR }} />
+        )}
+      </div>
+
+      {/* Spectrogram with F0 overlay */}
+      <div className="relative h-56 rounded border bg-muted cursor-crosshair" onClick={seek}>
+        {cropped && <SpectrogramCanvas spectrogram={cropped} />}
+        {(spectrogram.status === 'computing' || spectrogram.status === 'error') && (
+          <span className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
+            {spectrogram.status === 'computing' ? 'Computing spectrogram...' : 'Spectrogram could not be computed'}
+          </span>
+        )}
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1000 1000" preserveAspectRatio="none">
+          {f0Segments.map((points, i) => (
+            <polyline key={i} points={points} fill="none" stroke={F0_COLOR} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          ))}
+        </svg>
+        {cursorInView && (
+          <div className="absolute top-0 bottom-0 w-px pointer-events-none" style={{ left: toPercent(cursor), backgroundColor: CURSOR_COLOR }} />
+        )}
+        <span className="absolute top-1 left-1 text-[10px] px-1 rounded bg-background/70">{maxFrequency / 1000} kHz</span>
+        <span className="absolute bottom-1 left-1 text-[10px] px-1 rounded bg-background/70">0 Hz</span>
+      </div>
+
+      {/* Pan through a zoomed view */}
+      {view && (
+        <Slider
+          value={[view.start]}
+          min={0}
+          max={duration - span}
+          step={span / 100}
+          onValueChange={([start]) => setView({ start, end: start + span })}
+          aria-label="Scroll through the recording"
+        />
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>{visible.start.toFixed(2)} s</span>
+        <span className="flex items-center gap-3">
+          <span className="flex items-center gap-1"><span className="inline-block h-2 w-3 rounded-sm bg-primary/20" /> Voiced</span>
+          {contour && <span className="flex items-center gap-1"><span className="inline-block h-0.5 w-3" style={{ backgroundColor: F0_COLOR }} /> F0</span>}
+          {!contour && <span>No pitch contour was saved with this recording</span>}
+        </span>
+        <span>{visible.end.toFixed(2)} s</span>
+      </div>
+    </div>
+  );
+};
+
+// Waveform, spectrogram, pitch track and playback of a session's recordings, to check
+// what the measures were computed from (a cough or a breath looks nothing like a vowel)
+const RecordingInspector = ({ session }: RecordingInspectorProps) => {
+  const recordings = [session.recording, ...(session.tasks ?? [])];
+  const [selectedId, setSelectedId] = useState(session.recording.id);
+  const recording = recordings.find(r => r.id === selectedId) ?? session.recording;
+
+  return (
+    <div className="space-y-4">
+      {recordings.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {recordings.map(r => (
+            <Button
+              key={r.id}
+              variant={r.id === recording.id ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSelectedId(r.id)}
+            >
+              {getVoiceTask(r.task ?? 'sustained-a').title}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {recording.quality && recording.quality.status !== 'pass' && (
+        <div className="p-3 rounded-lg border border-warning/50 bg-warning/5 text-sm">
+          <div className="flex items-center gap-2 mb-1">
+            <Badge variant="outline" className="text-warning border-warning/50">Quality {recording.quality.status}</Badge>
+          </div>
+          <ul className="text-xs text-muted-foreground list-disc pl-4">
+            {recording.quality.reasons.map(reason => <li key={reason.metric}>{reason.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <RecordingView key={recording.id} recording={recording} />
+    </div>
+  );
+};
+
+export default RecordingInspector;
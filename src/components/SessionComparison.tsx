@@ -0,0 +1,220 @@
+import { format } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import SpectrogramCanvas from '@/components/SpectrogramCanvas';
+import { useRecordingAudio } from '@/hooks/useRecordingAudio';
+import { useSpectrogram } from '@/hooks/useSpectrogram';
+import { PREDICTION_SOURCE_LABELS } from '@/lib/models/common';
+import { DEFAULT_NORMS, formatFeatureValue, formatMeasure, THRESHOLD_FEATURE_INFO, THRESHOLD_FEATURES } from '@/lib/clinicalThresholds';
+import { PatientBaseline } from '@/lib/baseline';
+import { TestSession } from '@/types';
+
+interface SessionComparisonProps {
+  sessions: TestSession[];            // Oldest first; deltas are relative to the first
+  baseline?: PatientBaseline | null;  // Adds a baseline column when established
+}
+
+// One colour per compared session, shared by the header, F0 overlay and spectrograms
+const SESSION_COLORS = ['hsl(var(--primary))', 'hsl(var(--destructive))', 'hsl(var(--warning))', 'hsl(var(--success))'];
+
+// Points per F0 trace; longer contours are decimated
+const MAX_CONTOUR_POINTS = 400;
+
+const SPECTROGRAM_MAX_FREQUENCY = 5000;
+
+const sessionLabel = (session: TestSession): string => format(new Date(session.completedAt), 'MMM d, yyyy');
+
+// F0 over time, null where the frame is not voiced so the line breaks there
+const contourPoints = (session: TestSession): { t: number; f0: number | null }[] => {
+  const contour = session.recording.contour;
+  if (!contour) return [];
+  const step = Math.max(1, Math.ceil(contour.f0.length / MAX_CONTOUR_POINTS));
+  const points: { t: number; f0: number | null }[] = [];
+  for (let i = 0; i < contour.f0.length; i += step) {
+    points.push({ t: contour.frameOffset + i * contour.frameStep, f0: contour.f0[i] > 0 ? contour.f0[i] : null });
+  }
+  return points;
+};
+
+const SessionSpectrogram = ({ session, color }: { session: TestSession; color: string }) => {
+  const audio = useRecordingAudio(session.recording);
+  const spectrogram = useSpectrogram(audio, SPECTROGRAM_MAX_FREQUENCY);
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium" style={{ color }}>{sessionLabel(session)}</p>
+      <div className="h-32 rounded border bg-muted flex items-center justify-center text-xs text-muted-foreground">
+        {spectrogram.status === 'ready' ? (
+          <SpectrogramCanvas spectrogram={spectrogram.spectrogram} />
+        ) : audio.status === 'loading' ? (
+          'Loading audio...'
+        ) : audio.status === 'error' ? (
+          'Audio could not be decoded'
+        ) : spectrogram.status === 'computing' ? (
+          'Computing spectrogram...'
+        ) : spectrogram.status === 'error' ? (
+          'Spectrogram could not be computed'
+        ) : (
+          'No stored audio'
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SessionComparison = ({ sessions, baseline }: SessionComparisonProps) => {
+  const reference = sessions[0];
+  const columns = `minmax(8rem, 1fr) ${baseline ? 'minmax(6rem, 1fr) ' : ''}repeat(${sessions.length}, minmax(6rem, 1fr))`;
+  const contours = sessions.map(contourPoints);
+  const hasContours = contours.some(points => points.length > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Predictions */}
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${sessions.length}, minmax(0, 1fr))` }}>
+        {sessions.map((session, index) => (
+          <div key={session.id} className="p-3 rounded-lg border" style={{ borderTopColor: SESSION_COLORS[index], borderTopWidth: 3 }}>
+            <p className="font-medium text-sm">{sessionLabel(session)}</p>
+            <p className="text-2xl font-bold">{Math.round(session.prediction.probability * 100)}%</p>
+            <p className="text-xs text-muted-foreground capitalize">{session.prediction.riskLevel} risk</p>
+            <p className="text-xs text-muted-foreground mt-2">
+              {session.prediction.modelId} v{session.prediction.modelVersion}
+            </p>
+            <p className="text-xs text-muted-foreground">{PREDICTION_SOURCE_LABELS[session.prediction.source]}</p>
+            {session.prediction.degraded && (
+              <Badge variant="outline" className="mt-1 text-warning border-warning/50">Fallback</Badge>
+            )}
+          </div>
+        ))}
+      </div>
+      {new Set(sessions.map(s => `${s.prediction.modelId}@${s.prediction.modelVersion}`)).size > 1 && (
+        <p className="text-xs text-warning -mt-4">
+          These results come from different models or model versions, so their scores are not directly comparable.
+        </p>
+      )}
+
+      {/* Feature deltas */}
+      <div>
+        <h3 className="font-semibold mb-3">Features</h3>
+        <div className="rounded-lg border text-sm overflow-x-auto">
+          <div className="grid gap-2 p-2 border-b bg-muted/50 font-medium text-xs" style={{ gridTemplateColumns: columns }}>
+            <span>Feature</span>
+            {baseline && <span>Baseline</span>}
+            {sessions.map((session, index) => (
+              <span key={session.id} style={{ color: SESSION_COLORS[index] }}>
+                {sessionLabel(session)}{index === 0 && ' (reference)'}
+              </span>
+            ))}
+          </div>
+          {THRESHOLD_FEATURES.map(key => (
+            <div key={key} className="grid gap-2 p-2 border-b last:border-b-0" style={{ gridTemplateColumns: columns }}>
+              <span className="text-muted-foreground">{THRESHOLD_FEATURE_INFO[key].label}</span>
+              {baseline && (
+                <span className="text-muted-foreground">
+                  {formatFeatureValue(key, baseline.features[key].mean.toFixed(2))}
+                </span>
+              )}
+              {sessions.map((session, index) => {
+                const value = session.recording.features[key];
+                const referenceValue = reference.recording.features[key];
+                // No change is shown when either session lacks the measure
+                const delta = value !== undefined && referenceValue !== undefined ? value - referenceValue : 0;
+                // Lower is worse for inverted features such as HNR
+                const adverse = DEFAULT_NORMS[key].inverted ? delta < 0 : delta > 0;
+                return (
+                  <span key={session.id}>
+                    <span className="font-medium">{formatFeatureValue(key, value?.toFixed(2))}</span>
+                    {index > 0 && delta !== 0 && (
+                      <span className={`block text-xs ${adverse ? 'text-destructive' : 'text-success'}`}>
+                        {delta > 0 ? '+' : '−'}{formatFeatureValue(key, Math.abs(delta).toFixed(2))}
+                      </span>
+                    )}
+                  </span>
+                );
+              })}
+            </div>
+          ))}
+          <div className="grid gap-2 p-2" style={{ gridTemplateColumns: columns }}>
+            <span className="text-muted-foreground">Mean Pitch</span>
+            {baseline && <span />}
+            {sessions.map((session, index) => {
+              const { pitch } = session.recording.features;
+              const referencePitch = reference.recording.features.pitch;
+              const delta = pitch !== undefined && referencePitch !== undefined ? pitch - referencePitch : 0;
+              return (
+                <span key={session.id}>
+                  <span className="font-medium">{formatMeasure(pitch, 0, ' Hz')}</span>
+                  {index > 0 && Math.round(delta) !== 0 && (
+                    <span className="block text-xs text-muted-foreground">{delta > 0 ? '+' : '−'}{Math.abs(delta).toFixed(0)} Hz</span>
+                  )}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* F0 contours */}
+      <div>
+        <h3 className="font-semibold mb-3">Pitch Contours</h3>
+        {hasContours ? (
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis
+                  type="number"
+                  dataKey="t"
+                  domain={[0, 'dataMax']}
+                  unit=" s"
+                  tickFormatter={(t: number) => t.toFixed(1)}
+                  className="text-xs"
+                  tick={{ fill: 'hsl(var(--muted-foreground))' }}
+                />
+                <YAxis unit=" Hz" className="text-xs" tick={{ fill: 'hsl(var(--muted-foreground))' }} width={60} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  labelFormatter={(t: number) => `${t.toFixed(2)} s`}
+                  formatter={(value: number) => [`${value.toFixed(1)} Hz`]}
+                />
+                <Legend />
+                {sessions.map((session, index) => contours[index].length > 0 && (
+                  <Line
+                    key={session.id}
+                    data={contours[index]}
+                    dataKey="f0"
+                    name={sessionLabel(session)}
+                    stroke={SESSION_COLORS[index]}
+                    strokeWidth={1.5}
+                    dot={false}
+                    connectNulls={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No pitch contours were saved with these tests.</p>
+        )}
+      </div>
+
+      {/* Spectrograms */}
+      <div>
+        <h3 className="font-semibold mb-3">Spectrograms</h3>
+        <p className="text-xs text-muted-foreground -mt-2 mb-3">0-{SPECTROGRAM_MAX_FREQUENCY / 1000} kHz, sustained /a/</p>
+        <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.min(sessions.length, 2)}, minmax(0, 1fr))` }}>
+          {sessions.map((session, index) => (
+            <SessionSpectrogram key={session.id} session={session} color={SESSION_COLORS[index]} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionComparison;
@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react';
+import { Spectrogram } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface SpectrogramCanvasProps {
+  spectrogram: Spectrogram;
+  dynamicRange?: number;   // dB below the loudest bin that still shows
+  className?: string;
+}
+
+// Dark-to-bright colour map (black, purple, red, orange, pale yellow)
+const COLOR_STOPS: [number, number, number][] = [
+  [0, 0, 4],
+  [81, 18, 124],
+  [183, 55, 121],
+  [252, 137, 97],
+  [252, 253, 191],
+];
+
+const colorAt = (t: number): [number, number, number] => {
+  const position = Math.min(1, Math.max(0, t)) * (COLOR_STOPS.length - 1);
+  const i = Math.min(COLOR_STOPS.length - 2, Math.floor(position));
+  const f = position - i;
+  const [a, b] = [COLOR_STOPS[i], COLOR_STOPS[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+// Widest canvas drawn; longer spectrograms are max-pooled over neighbouring frames
+const MAX_COLUMNS = 1200;
+
+// One canvas pixel per frame (or pooled group of frames) and bin, stretched to the
+// element's size by CSS; low frequencies at the bottom
+const SpectrogramCanvas = ({ spectrogram, dynamicRange = 70, className }: SpectrogramCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const { frames } = spectrogram;
+    if (!canvas || frames.length === 0) return;
+
+    const bins = frames[0].length;
+    const stride = Math.ceil(frames.length / MAX_COLUMNS);
+    const columns: Float32Array[] = [];
+    for (let start = 0; start < frames.length; start += stride) {
+      const column = new Float32Array(frames[start]);
+      for (let f = start + 1; f < Math.min(start + stride, frames.length); f++) {
+        for (let k = 0; k < bins; k++) column[k] = Math.max(column[k], frames[f][k]);
+      }
+      columns.push(column);
+    }
+
+    canvas.width = columns.length;
+    canvas.height = bins;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    let peak = -Infinity;
+    for (const column of columns) {
+      for (let k = 0; k < bins; k++) peak = Math.max(peak, column[k]);
+    }
+
+    const image = context.createImageData(columns.length, bins);
+    columns.forEach((column, x) => {
+      for (let k = 0; k < bins; k++) {
+        const [r, g, b] = colorAt(1 - (peak - column[k]) / dynamicRange);
+        const offset = ((bins - 1 - k) * columns.length + x) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      }
+    });
+    context.putImageData(image, 0, 0);
+  }, [spectrogram, dynamicRange]);
+
+  return <canvas ref={canvasRef} className={cn('w-full h-full rounded', className)} />;
+};
+
+export default SpectrogramCanvas;
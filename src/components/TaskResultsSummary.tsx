@@ -0,0 +1,49 @@
+import { getVoiceTask } from '@/lib/voiceProtocol';
+import { VoiceRecording } from '@/types';
+
+interface TaskResultsSummaryProps {
+  recordings: VoiceRecording[];
+}
+
+// Headline measures of each protocol task
+const describeTask = (recording: VoiceRecording): string => {
+  const { features, ddk, speech } = recording;
+  switch (recording.task) {
+    case 'ddk':
+      return ddk
+        ? `${ddk.rate.toFixed(1)} syllables/s, interval variation ${ddk.intervalCV.toFixed(1)}%`
+        : 'No syllables detected';
+    case 'reading':
+      return speech
+        ? `${speech.speechRate.toFixed(1)} syllables/s, F0 range ${speech.f0Range.toFixed(1)} st, ${Math.round(speech.pauseRatio * 100)}% pause time`
+        : 'No speech measured';
+    default: {
+      const measures = [
+        features.jitter !== undefined && `Jitter ${features.jitter.toFixed(2)}%`,
+        features.shimmer !== undefined && `shimmer ${features.shimmer.toFixed(2)}%`,
+        features.hnr !== undefined && `HNR ${features.hnr.toFixed(1)} dB`,
+      ].filter(Boolean);
+      return measures.length > 0 ? measures.join(', ') : 'Too little voicing to measure';
+    }
+  }
+};
+
+const TaskResultsSummary = ({ recordings }: TaskResultsSummaryProps) => {
+  if (recordings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">Task Results</h4>
+      <ul className="divide-y rounded-lg border">
+        {recordings.map(recording => (
+          <li key={recording.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+            <span className="font-medium">{getVoiceTask(recording.task ?? 'sustained-a').title}</span>
+            <span className="text-muted-foreground text-right">{describeTask(recording)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TaskResultsSummary;
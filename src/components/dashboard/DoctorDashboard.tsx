@@ -10,7 +10,7 @@ import {
   getTestSessionsByPatient, 
   getAlertsByUser 
 } from '@/lib/storage';
-import { Patient, TestSession, Alert, DoctorStats } from '@/types';
+import { Patient, TestSession, Alert, DoctorStats, TrendDirection } from '@/types';
 import { 
   Users, 
   AlertTriangle, 
@@ -20,7 +20,8 @@ import {
   Minus,
   Activity,
   Calendar,
-  Eye
+  Eye,
+  AudioWaveform
 } from 'lucide-react';
 import { format, subDays } from 'date-fns';
 import { 
@@ -31,15 +32,20 @@ import {
   DialogTitle 
 } from '@/components/ui/dialog';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { analyzePatientTrends, describeTrendEvidence, PatientTrends } from '@/lib/longitudinal';
+import { formatFeatureValue, formatMeasure, THRESHOLD_FEATURE_INFO, THRESHOLD_FEATURES } from '@/lib/clinicalThresholds';
+import RecordingInspector from '@/components/RecordingInspector';
 
 const DoctorDashboard = () => {
   const { user } = useAuth();
   const [patients, setPatients] = useState<Patient[]>([]);
   const [patientSessions, setPatientSessions] = useState<Record<string, TestSession[]>>({});
+  const [patientTrends, setPatientTrends] = useState<Record<string, PatientTrends>>({});
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [stats, setStats] = useState<DoctorStats | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
+  const [inspectedSession, setInspectedSession] = useState<TestSession | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -48,6 +54,7 @@ const DoctorDashboard = () => {
 
       // Get sessions for each patient
       const sessions: Record<string, TestSession[]> = {};
+      const trends: Record<string, PatientTrends> = {};
       let patientsAtRisk = 0;
       let totalRisk = 0;
       let testsToday = 0;
@@ -55,6 +62,7 @@ const DoctorDashboard = () => {
 
       doctorPatients.forEach(patient => {
         sessions[patient.id] = getTestSessionsByPatient(patient.id);
+        trends[patient.id] = analyzePatientTrends(sessions[patient.id]);
         
         const latestSession = sessions[patient.id][0];
         if (latestSession) {
@@ -70,6 +78,7 @@ const DoctorDashboard = () => {
       });
 
       setPatientSessions(sessions);
+      setPatientTrends(trends);
 
       const doctorAlerts = getAlertsByUser(user.id, 'doctor');
       setAlerts(doctorAlerts.filter(a => !a.read));
@@ -94,21 +103,8 @@ const DoctorDashboard = () => {
     return sessions[0].prediction;
   };
 
-  const getPatientTrend = (patientId: string) => {
-    const sessions = patientSessions[patientId];
-    if (!sessions || sessions.length < 3) return 'stable';
-    
-    const recent = sessions.slice(0, 3);
-    const older = sessions.slice(3, 6);
-    if (older.length === 0) return 'stable';
-
-    const recentAvg = recent.reduce((sum, s) => sum + s.prediction.probability, 0) / recent.length;
-    const olderAvg = older.reduce((sum, s) => sum + s.prediction.probability, 0) / older.length;
-    
-    if (recentAvg < olderAvg - 0.05) return 'improving';
-    if (recentAvg > olderAvg + 0.05) return 'worsening';
-    return 'stable';
-  };
+  const getPatientTrend = (patientId: string): TrendDirection =>
+    patientTrends[patientId]?.risk.direction ?? 'stable';
 
   const getRiskColor = (level: string) => {
     switch (level) {
@@ -128,7 +124,7 @@ const DoctorDashboard = () => {
     }
   };
 
-  const getTrendIcon = (trend: string) => {
+  const getTrendIcon = (trend: TrendDirection) => {
     switch (trend) {
       case 'improving': return <TrendingDown className="h-4 w-4 text-success" />;
       case 'worsening': return <TrendingUp className="h-4 w-4 text-destructive" />;
@@ -360,6 +356,11 @@ const DoctorDashboard = () => {
                       </p>
                     </div>
                     <p className="text-sm text-muted-foreground">Trend</p>
+                    {patientTrends[selectedPatient.id] && (
+                      <p className="text-xs text-muted-foreground">
+                        {describeTrendEvidence(patientTrends[selectedPatient.id].risk)}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -402,6 +403,65 @@ const DoctorDashboard = () => {
                   </div>
                 )}
 
+                {/* Feature Trends */}
+                {patientTrends[selectedPatient.id]?.risk.sufficient && (
+                  <div>
+                    <h4 className="font-medium mb-3">Feature Trends</h4>
+                    <div className="grid grid-cols-2 gap-3">
+                      {THRESHOLD_FEATURES.map(key => {
+                        const trend = patientTrends[selectedPatient.id].features[key];
+                        return (
+                          <div key={key} className="p-3 rounded-lg border text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium">{THRESHOLD_FEATURE_INFO[key].label}</span>
+                              <div className="flex items-center gap-1">
+                                {getTrendIcon(trend.direction)}
+                                <span className="capitalize text-muted-foreground">{trend.direction}</span>
+                              </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {describeTrendEvidence(trend)}
+                              {trend.slopePerWeek !== null && trend.sufficient && (
+                                <> · {trend.slopePerWeek >= 0 ? '+' : ''}{formatFeatureValue(key, trend.slopePerWeek.toFixed(3))}/week</>
+                              )}
+                            </p>
+                            {trend.changePoint && (
+                              <p className="text-xs text-warning mt-1">
+                                Shift from {formatFeatureValue(key, trend.changePoint.before.toFixed(2))} to {formatFeatureValue(key, trend.changePoint.after.toFixed(2))} since {format(new Date(trend.changePoint.at), 'MMM d')}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* Recordings */}
+                {patientSessions[selectedPatient.id]?.length > 0 && (
+                  <div>
+                    <h4 className="font-medium mb-3">Recent Recordings</h4>
+                    <div className="space-y-2">
+                      {patientSessions[selectedPatient.id].slice(0, 5).map(session => (
+                        <div key={session.id} className="flex items-center justify-between p-2 rounded-lg border text-sm">
+                          <span>{format(new Date(session.completedAt || session.recording.recordedAt), 'MMM d, yyyy h:mm a')}</span>
+                          <div className="flex items-center gap-2">
+                            <span className="text-muted-foreground">
+                              Jitter {formatMeasure(session.recording.features.jitter, 2, '%')}
+                            </span>
+                            <Badge variant={getRiskBadgeVariant(session.prediction.riskLevel)}>
+                              {Math.round(session.prediction.probability * 100)}%
+                            </Badge>
+                            <Button variant="ghost" size="sm" className="gap-1" onClick={() => setInspectedSession(session)}>
+                              <AudioWaveform className="h-4 w-4" /> Inspect
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Latest Recommendation */}
                 {getPatientRisk(selectedPatient.id) && (
                   <div>
@@ -414,6 +474,19 @@ const DoctorDashboard = () => {
               </div>
             </>
           )}
+
+          {/* Recording Inspector, nested so the patient dialog stays open behind it */}
+          <Dialog open={!!inspectedSession} onOpenChange={() => setInspectedSession(null)}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="font-display">
+                  Recording - {inspectedSession && format(new Date(inspectedSession.completedAt || inspectedSession.recording.recordedAt), 'MMM d, yyyy h:mm a')}
+                </DialogTitle>
+                <DialogDescription>{selectedPatient?.name}</DialogDescription>
+              </DialogHeader>
+              {inspectedSession && <RecordingInspector session={inspectedSession} />}
+            </DialogContent>
+          </Dialog>
         </DialogContent>
       </Dialog>
     </div>
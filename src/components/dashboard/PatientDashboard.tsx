@@ -18,6 +18,9 @@ import {
   CheckCircle
 } from 'lucide-react';
 import { format, subDays } from 'date-fns';
+import { BASELINE_CONFIG, baselineSessions, buildBaseline, compareToBaseline, formatZ, isBaselineSession, PatientBaseline } from '@/lib/baseline';
+import { MISSING_VALUE, THRESHOLD_FEATURE_INFO, THRESHOLD_FEATURES } from '@/lib/clinicalThresholds';
+import { analyzeRiskTrend, describeTrendEvidence } from '@/lib/longitudinal';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
 const PatientDashboard = () => {
@@ -25,11 +28,13 @@ const PatientDashboard = () => {
   const [testSessions, setTestSessions] = useState<TestSession[]>([]);
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [stats, setStats] = useState<PatientStats | null>(null);
+  const [baseline, setBaseline] = useState<PatientBaseline | null>(null);
 
   useEffect(() => {
     if (user) {
       const sessions = getTestSessionsByPatient(user.id);
       setTestSessions(sessions);
+      setBaseline(buildBaseline(sessions));
 
       const userAlerts = getAlertsByUser(user.id, 'patient');
       setAlerts(userAlerts.filter(a => !a.read));
@@ -43,30 +48,19 @@ const PatientDashboard = () => {
         ? sessions.reduce((sum, s) => sum + s.prediction.probability, 0) / sessions.length
         : 0;
 
-      // Determine trend
-      let trend: 'improving' | 'stable' | 'worsening' = 'stable';
-      if (sessions.length >= 3) {
-        const recent = sessions.slice(0, 3);
-        const older = sessions.slice(3, 6);
-        if (older.length > 0) {
-          const recentAvg = recent.reduce((sum, s) => sum + s.prediction.probability, 0) / recent.length;
-          const olderAvg = older.reduce((sum, s) => sum + s.prediction.probability, 0) / older.length;
-          if (recentAvg < olderAvg - 0.05) trend = 'improving';
-          else if (recentAvg > olderAvg + 0.05) trend = 'worsening';
-        }
-      }
-
       setStats({
         totalTests: sessions.length,
         lastTestDate: sessions[0]?.recording.recordedAt,
         averageRiskScore: avgRisk,
-        riskTrend: trend,
+        riskTrend: analyzeRiskTrend(sessions),
         testsThisMonth: thisMonth.length,
       });
     }
   }, [user]);
 
   const latestPrediction = testSessions[0]?.prediction;
+  const latestDeviation = baseline && testSessions[0] ? compareToBaseline(baseline, testSessions[0].recording.features) : null;
+  const baselineCollected = baselineSessions(testSessions).length;
 
   const getRiskColor = (level: string) => {
     switch (level) {
@@ -87,7 +81,7 @@ const PatientDashboard = () => {
   };
 
   const getTrendIcon = () => {
-    switch (stats?.riskTrend) {
+    switch (stats?.riskTrend.direction) {
       case 'improving': return <TrendingDown className="h-5 w-5 text-success" />;
       case 'worsening': return <TrendingUp className="h-5 w-5 text-destructive" />;
       default: return <Minus className="h-5 w-5 text-muted-foreground" />;
@@ -192,8 +186,10 @@ const PatientDashboard = () => {
                 {getTrendIcon()}
               </div>
               <div>
-                <p className="text-2xl font-bold capitalize">{stats?.riskTrend || 'N/A'}</p>
-                <p className="text-sm text-muted-foreground">Trend</p>
+                <p className="text-2xl font-bold capitalize">{stats?.riskTrend.direction || 'N/A'}</p>
+                <p className="text-sm text-muted-foreground">
+                  Trend{stats && <span className="text-xs"> · {describeTrendEvidence(stats.riskTrend)}</span>}
+                </p>
               </div>
             </div>
           </CardContent>
@@ -206,7 +202,12 @@ const PatientDashboard = () => {
         <Card>
           <CardHeader>
             <CardTitle className="font-display">Risk Score Trend</CardTitle>
-            <CardDescription>Your risk scores over the last 10 tests</CardDescription>
+            <CardDescription>
+              Your risk scores over the last 10 tests
+              {stats?.riskTrend.changePoint && (
+                <> · Shift from {Math.round(stats.riskTrend.changePoint.before * 100)}% to {Math.round(stats.riskTrend.changePoint.after * 100)}% since {format(new Date(stats.riskTrend.changePoint.at), 'MMM d')}</>
+              )}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             {chartData.length > 1 ? (
@@ -302,6 +303,63 @@ const PatientDashboard = () => {
         </Card>
       </div>
 
+      {/* Personal Baseline */}
+      {testSessions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-display">Change from Your Baseline</CardTitle>
+            <CardDescription>
+              {baseline
+                ? `Your latest test compared with your first ${baseline.sessionIds.length} good-quality tests (${format(new Date(baseline.from), 'MMM d')} - ${format(new Date(baseline.to), 'MMM d, yyyy')})`
+                : 'Your personal baseline is built from your first good-quality tests'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {latestDeviation ? (
+              <div className="grid md:grid-cols-[auto_1fr] gap-6 items-center">
+                <div className="text-center px-6">
+                  <p className={`text-3xl font-bold ${
+                    latestDeviation.change === 'worsened' ? 'text-destructive' :
+                    latestDeviation.change === 'improved' ? 'text-success' : ''
+                  }`}>
+                    {formatZ(latestDeviation.changeScore)}
+                  </p>
+                  <p className="text-sm text-muted-foreground capitalize">{latestDeviation.change}</p>
+                  {isBaselineSession(baseline, testSessions[0].id) && (
+                    <p className="text-xs text-muted-foreground mt-1">Part of your baseline</p>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {THRESHOLD_FEATURES.map(key => {
+                    const deviation = latestDeviation.features[key];
+                    return (
+                      <div key={key} className="p-3 rounded-lg bg-muted/50">
+                        <p className="text-xs text-muted-foreground">{THRESHOLD_FEATURE_INFO[key].label}</p>
+                        <p className={`font-semibold ${
+                          deviation?.notable ? deviation.adverseZ > 0 ? 'text-destructive' : 'text-success' : ''
+                        }`}>
+                          {deviation ? formatZ(deviation.z) : MISSING_VALUE}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Baseline {baseline.features[key].mean.toFixed(2)} {THRESHOLD_FEATURE_INFO[key].unit}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : (
+              <div className="text-center py-6 text-muted-foreground">
+                <p>
+                  {baselineCollected} of {BASELINE_CONFIG.MIN_SESSIONS} good-quality tests collected.
+                  Changes from your baseline are shown once it is established.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Latest Recommendation */}
       {latestPrediction && (
         <Card>
@@ -1,5 +1,5 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, Patient, Doctor } from '@/types';
+import { User, Patient, Doctor, Sex } from '@/types';
 import { 
   getCurrentUser, 
   setCurrentUser, 
@@ -27,6 +27,7 @@ interface SignupData {
   role: 'patient' | 'doctor';
   // Patient-specific
   dateOfBirth?: string;
+  sex?: Sex;
   phoneNumber?: string;
   // Doctor-specific
   specialization?: string;
@@ -119,6 +120,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         name: data.name,
         role: 'patient',
         dateOfBirth: data.dateOfBirth,
+        sex: data.sex,
         phoneNumber: data.phoneNumber,
         assignedDoctorId: 'demo-doctor-1', // Assign to demo doctor
       } as Omit<Patient, 'id' | 'createdAt'>);
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { VoiceRecording } from '@/types';
+import { getRecordingAudio } from '@/lib/audioStore';
+import { decodeAudio } from '@/lib/featureExtraction';
+
+export type RecordingAudio =
+  | { status: 'loading' }
+  | { status: 'missing' }   // The recording was saved without audio, or the audio was cleared
+  | { status: 'error'; error: string }
+  | { status: 'ready'; blob: Blob; samples: Float32Array; sampleRate: number };
+
+// Loads and decodes a recording's stored audio from the IndexedDB audio store
+export const useRecordingAudio = (recording: VoiceRecording | null | undefined): RecordingAudio => {
+  const [audio, setAudio] = useState<RecordingAudio>({ status: 'loading' });
+  const recordingId = recording?.id;
+  const hasAudio = !!recording?.audioData;
+
+  useEffect(() => {
+    if (!recordingId || !hasAudio) {
+      setAudio({ status: 'missing' });
+      return;
+    }
+
+    let cancelled = false;
+    setAudio({ status: 'loading' });
+
+    (async () => {
+      try {
+        const stored = await getRecordingAudio(recordingId);
+        if (!stored) {
+          if (!cancelled) setAudio({ status: 'missing' });
+          return;
+        }
+        const { samples, sampleRate } = await decodeAudio(stored.blob);
+        if (!cancelled) setAudio({ status: 'ready', blob: stored.blob, samples, sampleRate });
+      } catch (err) {
+        console.error('Failed to load recording audio:', err);
+        if (!cancelled) setAudio({ status: 'error', error: err instanceof Error ? err.message : String(err) });
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [recordingId, hasAudio]);
+
+  return audio;
+};
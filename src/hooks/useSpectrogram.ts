@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { Spectrogram } from '@/types';
+import { RecordingAudio } from '@/hooks/useRecordingAudio';
+import { computeSpectrogramInWorker, isExtractionCancelled } from '@/lib/featureExtraction';
+
+export type SpectrogramState =
+  | { status: 'idle' }        // No decoded audio to compute it from
+  | { status: 'computing' }
+  | { status: 'error'; error: string }
+  | { status: 'ready'; spectrogram: Spectrogram };
+
+// Display spectrogram of decoded recording audio, computed in the DSP worker so long
+// recordings don't block the page. Unmounting or new audio cancels the computation.
+export const useSpectrogram = (audio: RecordingAudio, maxFrequency: number): SpectrogramState => {
+  const [state, setState] = useState<SpectrogramState>({ status: 'idle' });
+
+  useEffect(() => {
+    if (audio.status !== 'ready') {
+      setState({ status: 'idle' });
+      return;
+    }
+
+    const controller = new AbortController();
+    setState({ status: 'computing' });
+    computeSpectrogramInWorker(audio.samples, audio.sampleRate, maxFrequency, controller.signal)
+      .then(spectrogram => setState({ status: 'ready', spectrogram }))
+      .catch(err => {
+        if (isExtractionCancelled(err)) return;
+        console.error('Failed to compute spectrogram:', err);
+        setState({ status: 'error', error: err instanceof Error ? err.message : String(err) });
+      });
+
+    return () => controller.abort();
+  }, [audio, maxFrequency]);
+
+  return state;
+};
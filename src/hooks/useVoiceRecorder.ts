@@ -1,35 +1,85 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { VoiceFeatures } from '@/types';
-import { getDSPProcessor } from '@/lib/dsp';
+import {
+  CaptureProfile,
+  CaptureSettings,
+  DDKFeatures,
+  LivePitchFrame,
+  PitchContour,
+  QualityReport,
+  SpectralFrames,
+  SpeechFeatures,
+  VoiceFeatures,
+  VoiceTaskType,
+} from '@/types';
+import { DEFAULT_CAPTURE_PROFILE, getCaptureSettings, openMicrophone } from '@/lib/captureProfiles';
+import { extractFeatures, extractFeaturesFromPCM, isExtractionCancelled } from '@/lib/featureExtraction';
+import { assessRecordingQuality, TASK_QUALITY_LIMITS } from '@/lib/qualityAssessment';
+import { concatSamples, encodeWav } from '@/lib/wav';
+import livePitchWorkletUrl from '@/workers/livePitch.worklet.ts?worker&url';
+import pcmCaptureWorkletUrl from '@/workers/pcmCapture.worklet.ts?worker&url';
+import type { PCMCaptureCommand, PCMCaptureMessage } from '@/workers/pcmCapture.worklet';
+
+// Live pitch frames arrive about every 23 ms, so this keeps roughly 4 seconds
+const PITCH_TRACE_LENGTH = 180;
+
+// Upper bound on waiting for the PCM worklet to hand over its last partial chunk
+const PCM_FLUSH_TIMEOUT_MS = 500;
+
+export interface RecordingResult {
+  blob: Blob;                 // MediaRecorder output (lossy)
+  wav: Blob | null;           // Lossless 16-bit WAV, null where PCM capture is unavailable
+  sampleRate: number | null;  // Hz, of the WAV
+  features: VoiceFeatures;
+  contour: PitchContour;
+  quality: QualityReport;
+  capture: CaptureSettings;
+  ddk?: DDKFeatures;
+  speech?: SpeechFeatures;
+  frames?: SpectralFrames;    // Per-frame MFCCs, kept for the scored sustained /a/ only
+}
 
 interface UseVoiceRecorderReturn {
   isRecording: boolean;
   isPaused: boolean;
   duration: number;
   audioLevel: number;
+  livePitch: LivePitchFrame | null;
+  pitchTrace: (number | null)[];
+  isExtracting: boolean;
+  extractionProgress: number;
   startRecording: () => Promise<void>;
-  stopRecording: () => Promise<{ blob: Blob; features: VoiceFeatures } | null>;
+  stopRecording: (task?: VoiceTaskType) => Promise<RecordingResult | null>;
   pauseRecording: () => void;
   resumeRecording: () => void;
+  cancelExtraction: () => void;
   error: string | null;
 }
 
-export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
+export const useVoiceRecorder = (captureProfile: CaptureProfile = DEFAULT_CAPTURE_PROFILE): UseVoiceRecorderReturn => {
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [duration, setDuration] = useState(0);
   const [audioLevel, setAudioLevel] = useState(0);
+  const [livePitch, setLivePitch] = useState<LivePitchFrame | null>(null);
+  const [pitchTrace, setPitchTrace] = useState<(number | null)[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionProgress, setExtractionProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const pitchNodeRef = useRef<AudioWorkletNode | null>(null);
+  const pcmNodeRef = useRef<AudioWorkletNode | null>(null);
+  const pcmChunksRef = useRef<Float32Array[]>([]);
   const audioContextRef = useRef<AudioContext | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const startTimeRef = useRef<number>(0);
   const pausedDurationRef = useRef<number>(0);
+  const extractionAbortRef = useRef<AbortController | null>(null);
+  const captureSettingsRef = useRef<CaptureSettings | null>(null);
 
   // Cleanup function
   const cleanup = useCallback(() => {
@@ -49,7 +99,18 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
       audioContextRef.current.close();
       audioContextRef.current = null;
     }
+    if (pitchNodeRef.current) {
+      pitchNodeRef.current.port.onmessage = null;
+      pitchNodeRef.current.disconnect();
+      pitchNodeRef.current = null;
+    }
+    if (pcmNodeRef.current) {
+      pcmNodeRef.current.port.onmessage = null;
+      pcmNodeRef.current.disconnect();
+      pcmNodeRef.current = null;
+    }
     analyserRef.current = null;
+    setLivePitch(null);
   }, []);
 
   // Monitor audio levels
@@ -79,23 +140,53 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
       setError(null);
       audioChunksRef.current = [];
 
-      // Request microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100,
-        }
-      });
+      // Request microphone access with the selected capture profile
+      const stream = await openMicrophone(captureProfile);
       streamRef.current = stream;
+      captureSettingsRef.current = getCaptureSettings(stream, captureProfile);
 
-      // Set up audio analysis
-      audioContextRef.current = new AudioContext();
+      // Set up audio analysis at the track's own rate so nothing is resampled
+      const trackRate = captureSettingsRef.current.sampleRate;
+      try {
+        audioContextRef.current = new AudioContext(trackRate ? { sampleRate: trackRate } : undefined);
+      } catch {
+        audioContextRef.current = new AudioContext();
+      }
       const source = audioContextRef.current.createMediaStreamSource(stream);
       analyserRef.current = audioContextRef.current.createAnalyser();
       analyserRef.current.fftSize = 256;
       source.connect(analyserRef.current);
 
+      // Live pitch feedback; recording still works where AudioWorklet is unavailable
+      setPitchTrace([]);
+      try {
+        await audioContextRef.current.audioWorklet.addModule(livePitchWorkletUrl);
+        // No outputs, so the browser pulls the node without routing it to the speakers
+        const pitchNode = new AudioWorkletNode(audioContextRef.current, 'live-pitch', { numberOfOutputs: 0 });
+        pitchNode.port.onmessage = (event: MessageEvent<LivePitchFrame>) => {
+          setLivePitch(event.data);
+          setPitchTrace(trace => [...trace.slice(-(PITCH_TRACE_LENGTH - 1)), event.data.f0]);
+        };
+        source.connect(pitchNode);
+        pitchNodeRef.current = pitchNode;
+      } catch (err) {
+        console.warn('Live pitch feedback unavailable:', err);
+      }
+
+      // Lossless PCM capture alongside MediaRecorder; falls back to the encoded recording
+      pcmChunksRef.current = [];
+      try {
+        await audioContextRef.current.audioWorklet.addModule(pcmCaptureWorkletUrl);
+        const pcmNode = new AudioWorkletNode(audioContextRef.current, 'pcm-capture', { numberOfOutputs: 0 });
+        pcmNode.port.onmessage = (event: MessageEvent<PCMCaptureMessage>) => {
+          if (event.data.type === 'chunk') pcmChunksRef.current.push(event.data.samples);
+        };
+        source.connect(pcmNode);
+        pcmNodeRef.current = pcmNode;
+      } catch (err) {
+        console.warn('Lossless capture unavailable:', err);
+      }
+
       // Set up MediaRecorder
       const mediaRecorder = new MediaRecorder(stream, {
         mimeType: MediaRecorder.isTypeSupported('audio/webm') ? 'audio/webm' : 'audio/mp4',
@@ -130,7 +221,26 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
     }
   };
 
-  const stopRecording = async (): Promise<{ blob: Blob; features: VoiceFeatures } | null> => {
+  // Collect the PCM worklet's final partial chunk before the audio graph is torn down
+  const flushPCM = (): Promise<void> => {
+    const node = pcmNodeRef.current;
+    if (!node) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(resolve, PCM_FLUSH_TIMEOUT_MS);
+      node.port.onmessage = (event: MessageEvent<PCMCaptureMessage>) => {
+        if (event.data.type === 'chunk') {
+          pcmChunksRef.current.push(event.data.samples);
+        } else {
+          clearTimeout(timeout);
+          resolve();
+        }
+      };
+      node.port.postMessage('flush' satisfies PCMCaptureCommand);
+    });
+  };
+
+  const stopRecording = async (task: VoiceTaskType = 'sustained-a'): Promise<RecordingResult | null> => {
     return new Promise((resolve) => {
       if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') {
         cleanup();
@@ -147,33 +257,61 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
           type: mediaRecorderRef.current?.mimeType || 'audio/webm' 
         });
 
+        await flushPCM();
+        const hasPCM = pcmNodeRef.current !== null && pcmChunksRef.current.length > 0;
+        const pcm = hasPCM ? concatSamples(pcmChunksRef.current) : null;
+        const sampleRate = hasPCM ? audioContextRef.current?.sampleRate ?? null : null;
+        pcmChunksRef.current = [];
+
         cleanup();
         setIsRecording(false);
         setIsPaused(false);
         setDuration(0);
         setAudioLevel(0);
 
+        const controller = new AbortController();
+        extractionAbortRef.current = controller;
+        setExtractionProgress(0);
+        setIsExtracting(true);
+
         try {
-          // Extract features using DSP
-          const dsp = getDSPProcessor();
-          const features = await dsp.extractFeatures(blob);
-          resolve({ blob, features });
-        } catch (err) {
-          console.error('Feature extraction failed:', err);
-          // Return blob with default features if extraction fails
+          // Encode before extraction, which takes ownership of the PCM buffer
+          const wav = pcm && sampleRate ? encodeWav(pcm, sampleRate) : null;
+
+          // Extract features using DSP in a worker, from the lossless PCM when available
+          const options = {
+            onProgress: setExtractionProgress,
+            signal: controller.signal,
+            task,
+            includeFrames: task === 'sustained-a',
+          };
+          const { features, contour, metrics, ddk, speech, frames } = pcm && sampleRate
+            ? await extractFeaturesFromPCM(pcm, sampleRate, options)
+            : await extractFeatures(blob, options);
           resolve({
             blob,
-            features: {
-              pitch: 150,
-              pitchVariation: 15,
-              jitter: 1.0,
-              shimmer: 3.0,
-              hnr: 20,
-              duration: duration,
-              amplitude: 0.5,
-              formants: [500, 1500, 2500],
-            },
+            wav,
+            sampleRate: wav ? sampleRate : null,
+            features,
+            contour,
+            quality: assessRecordingQuality(metrics, TASK_QUALITY_LIMITS[task]),
+            capture: captureSettingsRef.current ?? { profile: captureProfile },
+            ddk,
+            speech,
+            frames,
           });
+        } catch (err) {
+          if (isExtractionCancelled(err)) {
+            resolve(null);
+            return;
+          }
+          // Never substitute made-up features; the recording simply can't be analyzed
+          console.error('Feature extraction failed:', err);
+          setError('Your recording could not be analyzed. Please try again.');
+          resolve(null);
+        } finally {
+          extractionAbortRef.current = null;
+          setIsExtracting(false);
         }
       };
 
@@ -184,6 +322,7 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
   const pauseRecording = () => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
       mediaRecorderRef.current.pause();
+      pcmNodeRef.current?.port.postMessage('pause' satisfies PCMCaptureCommand);
       setIsPaused(true);
     }
   };
@@ -191,14 +330,22 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
   const resumeRecording = () => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'paused') {
       mediaRecorderRef.current.resume();
+      pcmNodeRef.current?.port.postMessage('resume' satisfies PCMCaptureCommand);
       setIsPaused(false);
       monitorAudioLevel();
     }
   };
 
+  const cancelExtraction = () => {
+    extractionAbortRef.current?.abort();
+  };
+
   // Cleanup on unmount
   useEffect(() => {
-    return cleanup;
+    return () => {
+      cleanup();
+      extractionAbortRef.current?.abort();
+    };
   }, [cleanup]);
 
   return {
@@ -206,10 +353,15 @@ export const useVoiceRecorder = (): UseVoiceRecorderReturn => {
     isPaused,
     duration,
     audioLevel,
+    livePitch,
+    pitchTrace,
+    isExtracting,
+    extractionProgress,
     startRecording,
     stopRecording,
     pauseRecording,
     resumeRecording,
+    cancelExtraction,
     error,
   };
 };
@@ -0,0 +1,63 @@
+// Recording audio persistence
+// Audio is far too large for localStorage, so it lives in IndexedDB keyed by
+// recording id and is referenced from VoiceRecording.audioData. Keeping the
+// original audio lets sessions be re-analyzed when the extractor improves.
+
+const DB_NAME = 'pd_audio';
+const DB_VERSION = 2;
+const STORE_NAME = 'recordings';
+
+export interface StoredAudio {
+  recordingId: string;
+  patientId: string;
+  blob: Blob;             // audio/wav when PCM capture was available, otherwise the MediaRecorder output
+  sampleRate?: number;    // Hz, for WAV
+  storedAt: string;
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      if (event.oldVersion < 1) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'recordingId' });
+      } else if (event.oldVersion < 2) {
+        // Version 1 indexed audio by patient, which nothing looks up
+        request.transaction.objectStore(STORE_NAME).deleteIndex('patientId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run a single request against the store and close the connection afterwards
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveRecordingAudio = async (audio: Omit<StoredAudio, 'storedAt'>): Promise<string> => {
+  await withStore('readwrite', store => store.put({ ...audio, storedAt: new Date().toISOString() }));
+  return audio.recordingId;
+};
+
+export const getRecordingAudio = async (recordingId: string): Promise<StoredAudio | undefined> => {
+  return withStore<StoredAudio | undefined>('readonly', store => store.get(recordingId));
+};
+
+export const clearRecordingAudio = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
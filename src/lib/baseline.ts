@@ -0,0 +1,124 @@
+// Personal baseline
+// A patient's own reference distribution, built from their first good-quality
+// sessions. Later sessions are scored against it: a z-score per feature and a
+// "change from baseline" score, so a drift shows up even while every value is still
+// inside the population ranges of clinicalThresholds.ts.
+//
+// The baseline is derived from the stored sessions rather than stored itself. It
+// only depends on the earliest sessions, so it stays fixed once it is complete.
+
+import { TestSession, VoiceFeatures } from '@/types';
+import { DEFAULT_NORMS, THRESHOLD_FEATURES, ThresholdFeature } from '@/lib/clinicalThresholds';
+import { getTestSessionsByPatient } from '@/lib/storage';
+
+export const BASELINE_CONFIG = {
+  SESSIONS: 5,          // Sessions that make up a complete baseline
+  MIN_SESSIONS: 3,      // Sessions needed before deviations are reported
+  // Smallest spread assumed per feature, about the test-retest variability of each
+  // measure, so a few very similar baseline sessions don't inflate the z-scores
+  MIN_SD: { jitter: 0.1, shimmer: 0.3, hnr: 1, pitchVariation: 1 } as Record<ThresholdFeature, number>,
+  NOTABLE_Z: 2,         // A single feature this far from baseline is flagged
+  CHANGE_THRESHOLD: 1,  // Change score (SD) beyond which the voice counts as changed
+};
+
+export interface FeatureBaseline {
+  mean: number;
+  sd: number;           // Sample SD, floored at MIN_SD
+}
+
+export interface PatientBaseline {
+  patientId: string;
+  sessionIds: string[];  // Sessions the baseline is built from, oldest first
+  complete: boolean;     // All BASELINE_CONFIG.SESSIONS collected
+  from: string;          // Completion date of the first and last baseline session
+  to: string;
+  features: Record<ThresholdFeature, FeatureBaseline>;
+}
+
+export interface FeatureDeviation {
+  value: number;
+  z: number;             // (value - mean) / sd
+  adverseZ: number;      // z signed so that positive is toward pathological
+  notable: boolean;      // |z| >= NOTABLE_Z
+}
+
+export type BaselineChange = 'improved' | 'stable' | 'worsened';
+
+export interface BaselineDeviation {
+  features: Partial<Record<ThresholdFeature, FeatureDeviation>>; // Only the measures the recording has
+  changeScore: number;   // Mean adverse z across features, in SDs; positive is worse
+  change: BaselineChange;
+}
+
+const sessionDate = (session: TestSession): string => session.completedAt || session.recording.recordedAt;
+
+// Passing the quality gate, warnings included: 'warn' recordings are scored too, and
+// ordinary rooms often warn. Sessions recorded before the gate existed have no report.
+const isGoodQuality = (session: TestSession): boolean =>
+  !session.recording.quality || session.recording.quality.status !== 'fail';
+
+const hasFeatures = (features: VoiceFeatures): boolean =>
+  THRESHOLD_FEATURES.every(key => Number.isFinite(features[key]));
+
+// Sessions eligible for the baseline, oldest first, at most BASELINE_CONFIG.SESSIONS
+export const baselineSessions = (sessions: TestSession[]): TestSession[] =>
+  sessions
+    .filter(s => isGoodQuality(s) && hasFeatures(s.recording.features))
+    .sort((a, b) => new Date(sessionDate(a)).getTime() - new Date(sessionDate(b)).getTime())
+    .slice(0, BASELINE_CONFIG.SESSIONS);
+
+// Null until MIN_SESSIONS good-quality sessions exist
+export const buildBaseline = (sessions: TestSession[]): PatientBaseline | null => {
+  const reference = baselineSessions(sessions);
+  if (reference.length < BASELINE_CONFIG.MIN_SESSIONS) return null;
+
+  const features = {} as Record<ThresholdFeature, FeatureBaseline>;
+  for (const key of THRESHOLD_FEATURES) {
+    const values = reference.map(s => s.recording.features[key]);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    features[key] = { mean, sd: Math.max(Math.sqrt(variance), BASELINE_CONFIG.MIN_SD[key]) };
+  }
+
+  return {
+    patientId: reference[0].patientId,
+    sessionIds: reference.map(s => s.id),
+    complete: reference.length >= BASELINE_CONFIG.SESSIONS,
+    from: sessionDate(reference[0]),
+    to: sessionDate(reference[reference.length - 1]),
+    features,
+  };
+};
+
+export const getPatientBaseline = (patientId: string): PatientBaseline | null =>
+  buildBaseline(getTestSessionsByPatient(patientId));
+
+export const isBaselineSession = (baseline: PatientBaseline | null, sessionId: string): boolean =>
+  !!baseline && baseline.sessionIds.includes(sessionId);
+
+export const compareToBaseline = (baseline: PatientBaseline, features: VoiceFeatures): BaselineDeviation => {
+  // Measures the recording lacks get no deviation and don't count toward the change score
+  const measured = THRESHOLD_FEATURES.filter(key => features[key] !== undefined);
+  const deviations: Partial<Record<ThresholdFeature, FeatureDeviation>> = {};
+  for (const key of measured) {
+    const { mean, sd } = baseline.features[key];
+    const z = (features[key] - mean) / sd;
+    deviations[key] = {
+      value: features[key],
+      z,
+      // Lower is worse for inverted features such as HNR
+      adverseZ: DEFAULT_NORMS[key].inverted ? -z : z,
+      notable: Math.abs(z) >= BASELINE_CONFIG.NOTABLE_Z,
+    };
+  }
+
+  const changeScore = measured.reduce((sum, key) => sum + deviations[key].adverseZ, 0) / Math.max(1, measured.length);
+  const change: BaselineChange =
+    changeScore >= BASELINE_CONFIG.CHANGE_THRESHOLD ? 'worsened' :
+    changeScore <= -BASELINE_CONFIG.CHANGE_THRESHOLD ? 'improved' : 'stable';
+
+  return { features: deviations, changeScore, change };
+};
+
+// e.g. "+1.4 SD"
+export const formatZ = (z: number): string => `${z >= 0 ? '+' : '−'}${Math.abs(z).toFixed(1)} SD`;
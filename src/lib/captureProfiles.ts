@@ -0,0 +1,77 @@
+// Microphone capture profiles
+// Browser voice processing (echo cancellation, noise suppression, automatic gain) is
+// tuned for calls: it gates, smooths and re-levels the signal, which distorts exactly
+// the cycle-level perturbation measures (jitter, shimmer, HNR) this app analyzes.
+
+import { CaptureProfile, CaptureSettings } from '@/types';
+
+interface CaptureProfileConfig {
+  label: string;
+  description: string;
+  constraints: MediaTrackConstraints;
+}
+
+export const CAPTURE_PROFILES: Record<CaptureProfile, CaptureProfileConfig> = {
+  clinical: {
+    label: 'Clinical',
+    description: 'Raw microphone signal: no echo cancellation, noise suppression or gain control. Recommended for voice tests.',
+    constraints: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+      channelCount: 1,
+      // The browser settles on the closest supported rate; raised to the device maximum after capture starts.
+      // The stored WAV keeps the full rate; analysis decimates to ANALYSIS_MAX_SAMPLE_RATE (dsp.ts).
+      sampleRate: { ideal: 96000 },
+    },
+  },
+  conversational: {
+    label: 'Conversational',
+    description: 'Browser voice processing enabled. Use only if the clinical profile picks up too much background noise.',
+    constraints: {
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      channelCount: 1,
+      sampleRate: 44100,
+    },
+  },
+};
+
+export const DEFAULT_CAPTURE_PROFILE: CaptureProfile = 'clinical';
+
+// Open the microphone with the given profile. For the clinical profile the
+// track is pushed to the highest sample rate the device reports.
+export const openMicrophone = async (profile: CaptureProfile): Promise<MediaStream> => {
+  const { constraints } = CAPTURE_PROFILES[profile];
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints });
+
+  if (profile === 'clinical') {
+    const [track] = stream.getAudioTracks();
+    const maxRate = track?.getCapabilities?.().sampleRate?.max;
+    if (track && maxRate && maxRate > (track.getSettings().sampleRate ?? 0)) {
+      try {
+        await track.applyConstraints({ ...constraints, sampleRate: maxRate });
+      } catch (err) {
+        console.warn('Could not raise capture sample rate:', err);
+      }
+    }
+  }
+
+  return stream;
+};
+
+// Effective settings of the capture track, as reported by the browser
+export const getCaptureSettings = (stream: MediaStream, profile: CaptureProfile): CaptureSettings => {
+  const settings = stream.getAudioTracks()[0]?.getSettings() ?? {};
+  return {
+    profile,
+    sampleRate: settings.sampleRate,
+    sampleSize: settings.sampleSize,
+    channelCount: settings.channelCount,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    deviceId: settings.deviceId,
+  };
+};
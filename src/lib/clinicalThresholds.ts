@@ -0,0 +1,179 @@
+// Clinical thresholds for the four headline voice measures, and the normative
+// limits of the other perturbation variants. Every model, page, report and chatbot
+// answer reads them from here.
+//
+// References: Tsanas et al., Little et al. studies on PD voice biomarkers. The jitter
+// and shimmer limits are the MDVP norms, published for the local (cycle-to-cycle)
+// variants, so they are applied to `jitter` and `shimmer` only.
+//
+// Norms are stratified by sex and age. Pitch variation is measured in Hz, so it
+// scales with the speaker's F0: the same SD is a flat voice for a woman (F0 around
+// 200 Hz) and a lively one for a man (around 120 Hz). Perturbation rises and HNR
+// falls with age, so older speakers get somewhat wider limits. These are screening
+// defaults, not a normative dataset; adjust NORM_STRATA to local norms.
+
+import { Demographics, Patient, User, VoiceFeatures } from '@/types';
+
+export type ThresholdFeature = 'jitter' | 'shimmer' | 'hnr' | 'pitchVariation';
+
+// For inverted features lower values are worse
+export interface FeatureThreshold {
+  healthy: number;
+  warning: number;
+  critical: number;
+  inverted: boolean;
+}
+
+export type ClinicalNorms = Record<ThresholdFeature, FeatureThreshold>;
+
+export const THRESHOLD_FEATURES: ThresholdFeature[] = ['jitter', 'shimmer', 'hnr', 'pitchVariation'];
+
+export const THRESHOLD_FEATURE_INFO: Record<ThresholdFeature, { label: string; unit: string; description: string }> = {
+  jitter: {
+    label: 'Jitter (local)',
+    unit: '%',
+    description: 'Measures cycle-to-cycle variation of the glottal period (MDVP Jitt). Higher values may indicate vocal cord irregularity.',
+  },
+  shimmer: {
+    label: 'Shimmer (local)',
+    unit: '%',
+    description: 'Measures cycle-to-cycle variation of the glottal cycle amplitude (MDVP Shim). Elevated values suggest voice instability.',
+  },
+  hnr: {
+    label: 'HNR (Harmonics-to-Noise)',
+    unit: 'dB',
+    description: 'Ratio of harmonic sound to noise. Higher values indicate clearer voice quality.',
+  },
+  pitchVariation: {
+    label: 'Pitch Variation',
+    unit: 'Hz',
+    description: 'Standard deviation of fundamental frequency. Very low variation may indicate reduced vocal flexibility.',
+  },
+};
+
+// Used when sex and age are unknown
+export const DEFAULT_NORMS: ClinicalNorms = {
+  // Local jitter (MDVP Jitt) - healthy < 1.04%, PD typically > 1.5%
+  jitter: { healthy: 1.04, warning: 1.5, critical: 2.5, inverted: false },
+  // Local shimmer (MDVP Shim) - healthy < 3.81%, PD typically > 5%
+  shimmer: { healthy: 3.81, warning: 5.0, critical: 8.0, inverted: false },
+  // HNR - healthy > 20dB, PD typically < 15dB
+  hnr: { healthy: 20, warning: 15, critical: 10, inverted: true },
+  // Pitch variation - healthy has moderate variation, PD often shows reduced variation
+  pitchVariation: { healthy: 15, warning: 8, critical: 5, inverted: true },
+};
+
+interface NormStratum {
+  label: string;
+  matches: (demographics: Demographics) => boolean;
+  overrides: Partial<Record<ThresholdFeature, Partial<FeatureThreshold>>>;
+}
+
+// Applied in order over the defaults; every matching stratum contributes
+const NORM_STRATA: NormStratum[] = [
+  {
+    label: 'male',
+    matches: d => d.sex === 'male',
+    overrides: { pitchVariation: { healthy: 10, warning: 6, critical: 4 } },
+  },
+  {
+    label: 'female',
+    matches: d => d.sex === 'female',
+    overrides: { pitchVariation: { healthy: 18, warning: 10, critical: 6 } },
+  },
+  {
+    label: 'age 60+',
+    matches: d => d.age !== undefined && d.age >= 60,
+    overrides: {
+      jitter: { healthy: 1.2, warning: 1.7, critical: 2.7 },
+      shimmer: { healthy: 4.2, warning: 5.5, critical: 8.5 },
+      hnr: { healthy: 18, warning: 14, critical: 10 },
+    },
+  },
+];
+
+// MDVP normative upper limits for the other perturbation variants; each is rated
+// only against the limit published for that exact variant
+export const PERTURBATION_LIMITS: { key: keyof VoiceFeatures; label: string; unit: string; limit: number }[] = [
+  { key: 'jitterRAP', label: 'Jitter RAP', unit: '%', limit: 0.68 },
+  { key: 'jitterPPQ5', label: 'Jitter PPQ5', unit: '%', limit: 0.84 },
+  { key: 'shimmerDb', label: 'Shimmer', unit: 'dB', limit: 0.35 },
+  { key: 'shimmerAPQ11', label: 'Shimmer APQ11', unit: '%', limit: 3.07 },
+];
+
+export const ageFromDateOfBirth = (dateOfBirth: string, at: Date = new Date()): number | undefined => {
+  const birth = new Date(dateOfBirth);
+  if (isNaN(birth.getTime())) return undefined;
+  let age = at.getFullYear() - birth.getFullYear();
+  const beforeBirthday = at.getMonth() < birth.getMonth() ||
+    (at.getMonth() === birth.getMonth() && at.getDate() < birth.getDate());
+  if (beforeBirthday) age--;
+  return age;
+};
+
+// Demographics of a patient account at a given date (e.g. when a test was taken)
+export const demographicsOf = (user: User | null | undefined, at: Date = new Date()): Demographics => {
+  if (!user || user.role !== 'patient') return {};
+  const patient = user as Patient;
+  return {
+    sex: patient.sex,
+    age: patient.dateOfBirth ? ageFromDateOfBirth(patient.dateOfBirth, at) : undefined,
+  };
+};
+
+export const getNorms = (demographics: Demographics = {}): ClinicalNorms => {
+  const norms = { ...DEFAULT_NORMS };
+  for (const stratum of NORM_STRATA) {
+    if (!stratum.matches(demographics)) continue;
+    for (const feature of THRESHOLD_FEATURES) {
+      if (stratum.overrides[feature]) norms[feature] = { ...norms[feature], ...stratum.overrides[feature] };
+    }
+  }
+  return norms;
+};
+
+// Which strata apply, e.g. "female, age 60+"; empty for the defaults
+export const describeNorms = (demographics: Demographics = {}): string =>
+  NORM_STRATA.filter(stratum => stratum.matches(demographics)).map(stratum => stratum.label).join(', ');
+
+// 'unmeasured' when the recording had too little voicing to compute the measure
+export type FeatureStatus = 'normal' | 'borderline' | 'abnormal' | 'unmeasured';
+
+export const classifyFeature = (feature: ThresholdFeature, value: number | undefined, norms: ClinicalNorms = DEFAULT_NORMS): FeatureStatus => {
+  if (value === undefined) return 'unmeasured';
+  const t = norms[feature];
+  if (t.inverted) {
+    if (value >= t.healthy) return 'normal';
+    if (value >= t.warning) return 'borderline';
+    return 'abnormal';
+  }
+  if (value <= t.healthy) return 'normal';
+  if (value <= t.warning) return 'borderline';
+  return 'abnormal';
+};
+
+// Shown in place of a measure that could not be computed
+export const MISSING_VALUE = '—';
+
+// e.g. formatMeasure(features.pitch, 1, ' Hz'); MISSING_VALUE when undefined
+export const formatMeasure = (value: number | undefined, digits: number, unit = ''): string =>
+  value === undefined ? MISSING_VALUE : `${value.toFixed(digits)}${unit}`;
+
+export const formatFeatureValue = (feature: ThresholdFeature, value: number | string | undefined): string => {
+  if (value === undefined) return MISSING_VALUE;
+  const { unit } = THRESHOLD_FEATURE_INFO[feature];
+  return unit === '%' ? `${value}%` : `${value} ${unit}`;
+};
+
+// Display ranges, e.g. "< 1.04%", "1.04% - 1.5%", "> 1.5%"
+export const healthyRange = (feature: ThresholdFeature, norms: ClinicalNorms = DEFAULT_NORMS): string =>
+  `${norms[feature].inverted ? '>' : '<'} ${formatFeatureValue(feature, norms[feature].healthy)}`;
+
+export const borderlineRange = (feature: ThresholdFeature, norms: ClinicalNorms = DEFAULT_NORMS): string => {
+  const { healthy, warning, inverted } = norms[feature];
+  const [low, high] = inverted ? [warning, healthy] : [healthy, warning];
+  return `${formatFeatureValue(feature, low)} - ${formatFeatureValue(feature, high)}`;
+};
+
+export const abnormalRange = (feature: ThresholdFeature, norms: ClinicalNorms = DEFAULT_NORMS): string =>
+  `${norms[feature].inverted ? '<' : '>'} ${formatFeatureValue(feature, norms[feature].warning)}`;
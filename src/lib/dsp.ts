@@ -1,293 +1,1441 @@
 // Digital Signal Processing utilities for voice feature extraction
 // This extracts features that are typically used for Parkinson's detection
+// Runs on decoded PCM without any Web Audio dependency so it can live in a worker
 
-import { VoiceFeatures } from '@/types';
+import {
+  DDKFeatures,
+  FormantStats,
+  PitchContour,
+  SignalMetrics,
+  SpectralFrames,
+  Spectrogram,
+  SpeechFeatures,
+  VoiceAnalysis,
+  VoiceFeatures,
+  VoiceTaskType,
+  VoicingLabel,
+} from '@/types';
+
+// Search range for the fundamental frequency
+const MIN_F0 = 50;
+const MAX_F0 = 500;
+
+// Pitch-track frames in seconds so the analysis behaves the same at any sample rate;
+// 45 ms holds two periods at MIN_F0 with some margin
+export const PITCH_FRAME_DURATION = 0.045;
+const PITCH_HOP_DURATION = 0.01;
+
+// Recordings captured faster than this are decimated before analysis (see downsampleForAnalysis)
+export const ANALYSIS_MAX_SAMPLE_RATE = 48000;
+// Formant tracking runs at 11-12 kHz, i.e. a formant ceiling of about 5.5 kHz as in Praat
+const FORMANT_MAX_SAMPLE_RATE = 12000;
+
+// Voicing decision: minimum normalized autocorrelation at the pitch period and
+// maximum zero-crossing rate (crossings per second) of a voiced frame
+const VOICING_THRESHOLD = 0.45;
+const MAX_VOICED_CROSSING_RATE = 3000;
+
+// Fewest glottal cycles jitter and shimmer are reported from, whatever the task;
+// the sustained-vowel quality gate fails recordings below the same count
+const MIN_PERTURBATION_CYCLES = 20;
+
+// Shortest non-voiced stretch inside connected speech that counts as a pause (s)
+const MIN_PAUSE_DURATION = 0.25;
+
+// MFCC front end: 25 ms frames every 10 ms, 26 mel bands up to 8 kHz, 13 coefficients
+const MFCC_FRAME_DURATION = 0.025;
+const MFCC_HOP_DURATION = 0.01;
+const MEL_BANDS = 26;
+const MEL_MAX_FREQUENCY = 8000;
+const MFCC_COUNT = 13;
+
+export interface AnalysisOptions {
+  onProgress?: (progress: number) => void;  // 0-1
+  task?: VoiceTaskType;                      // Adds task-specific measures (DDK, connected speech)
+  includeFrames?: boolean;                   // Keep the per-frame MFCC matrix
+}
+
+// Frame-wise segmentation result; f0 is 0 wherever the frame is not voiced
+interface PitchTrack {
+  frameSize: number;
+  hopSize: number;
+  f0: number[];
+  strength: number[];   // Normalized autocorrelation at the pitch period (0-1)
+  voicing: VoicingLabel[];
+}
+
+// Praat-style jitter measures, all relative values in %
+interface JitterMeasures {
+  local: number;
+  absolute: number;   // µs
+  rap: number;
+  ppq5: number;
+  ddp: number;
+}
+
+// Praat-style shimmer measures, relative values in %
+interface ShimmerMeasures {
+  local: number;
+  db: number;         // dB
+  apq3: number;
+  apq5: number;
+  apq11: number;
+  dda: number;
+}
+
+// One glottal cycle between two consecutive pulses
+interface GlottalCycle {
+  period: number;     // seconds
+  amplitude: number;  // peak-to-peak
+}
+
+// Mean absolute difference between consecutive values, pooled over runs
+const meanAbsDifference = (runs: number[][]): number => {
+  let sum = 0;
+  let count = 0;
+  for (const run of runs) {
+    for (let i = 1; i < run.length; i++) {
+      sum += Math.abs(run[i] - run[i - 1]);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+// Mean absolute difference of differences (second difference), pooled over runs
+const meanAbsSecondDifference = (runs: number[][]): number => {
+  let sum = 0;
+  let count = 0;
+  for (const run of runs) {
+    for (let i = 1; i < run.length - 1; i++) {
+      sum += Math.abs((run[i + 1] - run[i]) - (run[i] - run[i - 1]));
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+// Mean absolute deviation of each value from the average of the `points`
+// values centred on it (RAP = 3, PPQ5 = 5, APQ11 = 11), pooled over runs
+const perturbationQuotient = (runs: number[][], points: number): number => {
+  const half = Math.floor(points / 2);
+  let sum = 0;
+  let count = 0;
+  for (const run of runs) {
+    for (let i = half; i < run.length - half; i++) {
+      let local = 0;
+      for (let j = i - half; j <= i + half; j++) local += run[j];
+      sum += Math.abs(run[i] - local / points);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+const linearRegressionSlope = (x: number[], y: number[]): number => {
+  const xMean = x.reduce((a, b) => a + b, 0) / x.length;
+  const yMean = y.reduce((a, b) => a + b, 0) / y.length;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - xMean) * (y[i] - yMean);
+    variance += (x[i] - xMean) * (x[i] - xMean);
+  }
+  return variance > 0 ? covariance / variance : 0;
+};
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+const fft = (re: Float64Array, im: Float64Array, inverse: boolean = false): void => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+const nextPowerOfTwo = (n: number): number => 2 ** Math.ceil(Math.log2(Math.max(1, n)));
+
+// Integer-factor decimation to at most maxSampleRate. Nothing the analysis measures
+// lies above 8 kHz, and the sample-rate-scaled searches (pitch lags, RPDE periods,
+// cycle peak picking) only get slower at higher rates. Low-pass is a
+// Blackman-windowed sinc at 90% of the new Nyquist frequency.
+export const downsampleForAnalysis = (
+  samples: Float32Array,
+  sampleRate: number,
+  maxSampleRate: number = ANALYSIS_MAX_SAMPLE_RATE
+): { samples: Float32Array; sampleRate: number } => {
+  const factor = Math.ceil(sampleRate / maxSampleRate);
+  if (factor <= 1) return { samples, sampleRate };
+
+  const cutoff = 0.45 / factor; // Cycles per input sample
+  const half = 16 * factor;
+  const taps = new Float64Array(2 * half + 1);
+  let tapSum = 0;
+  for (let k = -half; k <= half; k++) {
+    const sinc = k === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * k) / (Math.PI * k);
+    const position = (k + half) / (2 * half);
+    const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * position) + 0.08 * Math.cos(4 * Math.PI * position);
+    taps[k + half] = sinc * window;
+    tapSum += taps[k + half];
+  }
+
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let n = 0; n < output.length; n++) {
+    const centre = n * factor;
+    const from = Math.max(-half, -centre);
+    const to = Math.min(half, samples.length - 1 - centre);
+    let sum = 0;
+    for (let k = from; k <= to; k++) sum += taps[k + half] * samples[centre + k];
+    output[n] = sum / tapSum;
+  }
+
+  return { samples: output, sampleRate: sampleRate / factor };
+};
+
+// Display spectrogram: 25 ms Hann frames every 5 ms (wideband, so glottal pulses and
+// formants both show), up to maxFrequency
+export const computeSpectrogram = (
+  samples: Float32Array,
+  sampleRate: number,
+  maxFrequency: number = 5000
+): Spectrogram => {
+  const frameSize = Math.round(0.025 * sampleRate);
+  const hopSize = Math.round(0.005 * sampleRate);
+  const fftSize = nextPowerOfTwo(frameSize);
+  const frequencyStep = sampleRate / fftSize;
+  const bins = Math.min(fftSize / 2, Math.floor(maxFrequency / frequencyStep)) + 1;
+  const window = Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (frameSize - 1)));
+
+  const frames: Float32Array[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    const re = new Float64Array(fftSize);
+    const im = new Float64Array(fftSize);
+    for (let i = 0; i < frameSize; i++) re[i] = samples[start + i] * window[i];
+    fft(re, im);
+
+    const frame = new Float32Array(bins);
+    for (let k = 0; k < bins; k++) frame[k] = 10 * Math.log10(re[k] * re[k] + im[k] * im[k] + 1e-12);
+    frames.push(frame);
+  }
+
+  return {
+    frameStep: hopSize / sampleRate,
+    frameOffset: frameSize / 2 / sampleRate,
+    frequencyStep,
+    frames,
+  };
+};
+
+// Linear (non-circular) autocorrelation for lags 0..maxLag via the power spectrum
+const autocorrelate = (frame: ArrayLike<number>, maxLag: number): Float64Array => {
+  const size = nextPowerOfTwo(frame.length + maxLag + 1);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < frame.length; i++) re[i] = frame[i];
+
+  fft(re, im);
+  for (let i = 0; i < size; i++) {
+    re[i] = re[i] * re[i] + im[i] * im[i];
+    im[i] = 0;
+  }
+  fft(re, im, true);
+
+  return re.slice(0, maxLag + 1);
+};
+
+// Levinson-Durbin recursion: prediction coefficients a[1..order] (a[0] = 1) of
+// the all-pole model 1 / (1 + a1 z^-1 + ... + ap z^-p)
+const levinsonDurbin = (r: Float64Array, order: number): Float64Array | null => {
+  const a = new Float64Array(order + 1);
+  a[0] = 1;
+  let error = r[0];
+  if (error <= 0) return null;
+
+  for (let i = 1; i <= order; i++) {
+    let acc = r[i];
+    for (let j = 1; j < i; j++) acc += a[j] * r[i - j];
+    const k = -acc / error;
+
+    const previous = a.slice();
+    for (let j = 1; j < i; j++) a[j] = previous[j] + k * previous[i - j];
+    a[i] = k;
+
+    error *= 1 - k * k;
+    if (error <= 0) return null;
+  }
+
+  return a;
+};
+
+// Complex roots of the monic polynomial z^n + c1 z^(n-1) + ... + cn (Durand-Kerner)
+const polynomialRoots = (coefficients: Float64Array): { re: number; im: number }[] => {
+  const n = coefficients.length - 1;
+  const roots = Array.from({ length: n }, (_, k) => {
+    // Standard starting points: powers of a complex number off the axes
+    const angle = 0.9 * k + 0.4;
+    const radius = 0.9;
+    return { re: radius * Math.cos(angle), im: radius * Math.sin(angle) };
+  });
+
+  for (let iteration = 0; iteration < 500; iteration++) {
+    let change = 0;
+    for (let i = 0; i < n; i++) {
+      const z = roots[i];
+
+      // Horner evaluation of p(z)
+      let pRe = 1;
+      let pIm = 0;
+      for (let k = 1; k <= n; k++) {
+        const re = pRe * z.re - pIm * z.im + coefficients[k];
+        pIm = pRe * z.im + pIm * z.re;
+        pRe = re;
+      }
+
+      // Product of differences to the other roots
+      let qRe = 1;
+      let qIm = 0;
+      for (let j = 0; j < n; j++) {
+        if (j === i) continue;
+        const dRe = z.re - roots[j].re;
+        const dIm = z.im - roots[j].im;
+        const re = qRe * dRe - qIm * dIm;
+        qIm = qRe * dIm + qIm * dRe;
+        qRe = re;
+      }
+
+      const denom = qRe * qRe + qIm * qIm;
+      if (denom === 0) continue;
+      const stepRe = (pRe * qRe + pIm * qIm) / denom;
+      const stepIm = (pIm * qRe - pRe * qIm) / denom;
+      z.re -= stepRe;
+      z.im -= stepIm;
+      change = Math.max(change, Math.abs(stepRe) + Math.abs(stepIm));
+    }
+    if (change < 1e-10) break;
+  }
+
+  return roots;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const standardDeviation = (values: number[]): number => {
+  const avg = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) * (v - avg), 0) / values.length);
+};
+
+// Linear-interpolated percentile, p in 0-100
+const percentile = (values: number[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const hzToMel = (hz: number): number => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number): number => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters equally spaced on the mel scale, as weights over FFT bins 0..fftSize/2
+const melFilterbank = (fftSize: number, sampleRate: number, bands: number, maxHz: number): Float64Array[] => {
+  const maxMel = hzToMel(Math.min(maxHz, sampleRate / 2));
+  const edges = Array.from({ length: bands + 2 }, (_, i) => melToHz(maxMel * i / (bands + 1)) * fftSize / sampleRate);
+
+  return Array.from({ length: bands }, (_, band) => {
+    const [left, centre, right] = [edges[band], edges[band + 1], edges[band + 2]];
+    const weights = new Float64Array(fftSize / 2 + 1);
+    for (let bin = Math.ceil(left); bin <= Math.floor(right); bin++) {
+      weights[bin] = bin <= centre ? (bin - left) / (centre - left) : (right - bin) / (right - centre);
+    }
+    return weights;
+  });
+};
+
+// Orthonormal DCT-II, first `count` coefficients
+const dct = (values: number[], count: number): number[] => {
+  const n = values.length;
+  return Array.from({ length: count }, (_, k) => {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += values[i] * Math.cos(Math.PI * k * (i + 0.5) / n);
+    return sum * Math.sqrt((k === 0 ? 1 : 2) / n);
+  });
+};
+
+// Regression deltas over +-2 frames, edges clamped (HTK style)
+const deltas = (frames: number[][]): number[][] => {
+  const width = 2;
+  const norm = 2 * (1 + 4);
+  return frames.map((_, t) => frames[t].map((__, k) => {
+    let sum = 0;
+    for (let n = 1; n <= width; n++) {
+      const next = frames[Math.min(frames.length - 1, t + n)][k];
+      const previous = frames[Math.max(0, t - n)][k];
+      sum += n * (next - previous);
+    }
+    return sum / norm;
+  }));
+};
+
+// Per-column mean and standard deviation of a frame matrix
+const columnStatistics = (rows: number[][]): { mean: number[]; sd: number[] } => {
+  const columns = rows[0].map((_, k) => rows.map(row => row[k]));
+  return {
+    mean: columns.map(column => column.reduce((a, b) => a + b, 0) / column.length),
+    sd: columns.map(standardDeviation),
+  };
+};
+
+const mean = (runs: number[][]): number => {
+  const values = runs.flat();
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+};
 
 export class DSPProcessor {
-  private audioContext: AudioContext;
   private sampleRate: number;
 
-  constructor() {
-    this.audioContext = new AudioContext();
-    this.sampleRate = this.audioContext.sampleRate;
-  }
-
-  async extractFeatures(audioBlob: Blob): Promise<VoiceFeatures> {
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    const audioBuffer = await this.audioContext.decodeAudioData(arrayBuffer);
-    const samples = audioBuffer.getChannelData(0);
-    
-    // Extract various voice features
-    const pitch = this.calculatePitch(samples);
-    const pitchVariation = this.calculatePitchVariation(samples);
-    const jitter = this.calculateJitter(samples, pitch);
-    const shimmer = this.calculateShimmer(samples);
-    const hnr = this.calculateHNR(samples);
-    const amplitude = this.calculateAmplitude(samples);
-    const formants = this.calculateFormants(samples);
-    const duration = audioBuffer.duration;
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
 
-    return {
+  // Full analysis of a mono PCM signal. Task-specific measures are added for the
+  // DDK task, and the reading passage is additionally analyzed in connected-speech mode.
+  analyze(
+    samples: Float32Array,
+    { onProgress = () => {}, task = 'sustained-a', includeFrames = false }: AnalysisOptions = {}
+  ): VoiceAnalysis {
+    // Segment into voiced/unvoiced/silent frames; every feature below is
+    // computed on voiced frames only
+    const pitchTrack = this.segment(samples, p => onProgress(p * 0.6));
+    const { pitch, pitchVariation } = this.calculatePitchStatistics(pitchTrack);
+    const pulses = this.detectGlottalPulses(samples, pitchTrack);
+    const cycles = this.toCycleRuns(samples, pulses);
+    const jitter = this.calculateJitter(cycles);
+    const shimmer = this.calculateShimmer(cycles);
+    const harmonicity = this.calculateHarmonicity(pitchTrack);
+    onProgress(0.65);
+    const voicedSegment = this.longestVoicedSegment(samples, pulses);
+    const rpde = this.calculateRPDE(voicedSegment);
+    onProgress(0.75);
+    const dfa = this.calculateDFA(voicedSegment);
+    const ppe = this.calculatePPE(cycles);
+    const amplitude = this.calculateAmplitude(samples, pitchTrack);
+    onProgress(0.8);
+    const formants = this.calculateFormants(samples, pitchTrack);
+    onProgress(0.85);
+    const spectral = this.calculateSpectralFeatures(samples, pitchTrack);
+    onProgress(0.9);
+    const cepstral = this.calculateCPP(samples, pitchTrack);
+    const duration = samples.length / this.sampleRate;
+    const metrics = this.calculateSignalMetrics(samples, pitchTrack, cycles, duration);
+    onProgress(1);
+
+    // Measures that need more voicing than the recording has are left undefined;
+    // models that require them skip the recording rather than scoring made-up values
+    const features: VoiceFeatures = {
       pitch,
       pitchVariation,
-      jitter,
-      shimmer,
-      hnr,
+      jitter: jitter?.local,
+      jitterAbs: jitter?.absolute,
+      jitterRAP: jitter?.rap,
+      jitterPPQ5: jitter?.ppq5,
+      jitterDDP: jitter?.ddp,
+      shimmer: shimmer?.local,
+      shimmerDb: shimmer?.db,
+      shimmerAPQ3: shimmer?.apq3,
+      shimmerAPQ5: shimmer?.apq5,
+      shimmerAPQ11: shimmer?.apq11,
+      shimmerDDA: shimmer?.dda,
+      hnr: harmonicity?.hnr,
+      nhr: harmonicity?.nhr,
+      rpde: rpde ?? undefined,
+      dfa: dfa ?? undefined,
+      ppe: ppe ?? undefined,
       duration,
       amplitude,
-      formants,
+      formants: formants.formants,
+      formantStats: formants.stats,
+      mfccMean: spectral?.mfcc.mean,
+      mfccSD: spectral?.mfcc.sd,
+      deltaMfccMean: spectral?.deltaMfcc.mean,
+      deltaMfccSD: spectral?.deltaMfcc.sd,
+      spectralCentroid: spectral?.centroid,
+      spectralFlux: spectral?.flux,
+      spectralRolloff: spectral?.rolloff,
+      cpp: cepstral?.cpp,
+      cpps: cepstral?.cpps,
     };
+
+    const contour: PitchContour = {
+      frameStep: pitchTrack.hopSize / this.sampleRate,
+      frameOffset: pitchTrack.frameSize / 2 / this.sampleRate,
+      f0: pitchTrack.f0.map(f => Math.round(f * 10) / 10),
+      voicing: pitchTrack.voicing,
+    };
+
+    const analysis: VoiceAnalysis = { features, contour, metrics };
+    if (task === 'ddk') analysis.ddk = this.calculateDDK(samples) ?? undefined;
+    if (task === 'reading') analysis.speech = this.calculateSpeechFeatures(samples, pitchTrack) ?? undefined;
+    if (includeFrames && spectral) analysis.frames = spectral.frames;
+    return analysis;
   }
 
-  // Fundamental Frequency (F0) estimation using autocorrelation
-  private calculatePitch(samples: Float32Array): number {
-    const frameSize = 2048;
-    const hopSize = 512;
-    const pitches: number[] = [];
+  // Measurements for the recording quality gate. The noise floor is taken from
+  // the quietest non-voiced frames; without any, SNR and noise floor are unknown.
+  private calculateSignalMetrics(
+    samples: Float32Array,
+    track: PitchTrack,
+    cycles: GlottalCycle[][],
+    duration: number
+  ): SignalMetrics {
+    let clipped = 0;
+    for (let i = 0; i < samples.length; i++) {
+      if (Math.abs(samples[i]) >= 0.99) clipped++;
+    }
+
+    const voicedEnergies: number[] = [];
+    const otherEnergies: number[] = [];
+    track.voicing.forEach((label, frame) => {
+      const start = frame * track.hopSize;
+      let energy = 0;
+      for (let i = start; i < start + track.frameSize; i++) energy += samples[i] * samples[i];
+      (label === 'voiced' ? voicedEnergies : otherEnergies).push(energy / track.frameSize);
+    });
+
+    const toDb = (energy: number) => 10 * Math.log10(Math.max(energy, 1e-12));
+    const averageEnergy = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+    let noiseFloor: number | null = null;
+    if (otherEnergies.length > 0) {
+      const quietest = [...otherEnergies].sort((a, b) => a - b)
+        .slice(0, Math.max(1, Math.ceil(otherEnergies.length * 0.1)));
+      noiseFloor = toDb(averageEnergy(quietest));
+    }
+
+    const snr = noiseFloor !== null && voicedEnergies.length > 0
+      ? toDb(averageEnergy(voicedEnergies)) - noiseFloor
+      : null;
+
+    return {
+      duration,
+      voicedRatio: track.voicing.length > 0 ? voicedEnergies.length / track.voicing.length : 0,
+      glottalCycles: cycles.reduce((n, run) => n + run.length, 0),
+      clippingRatio: samples.length > 0 ? clipped / samples.length : 0,
+      snr,
+      noiseFloor,
+    };
+  }
+
+  // Voiced/unvoiced/silent segmentation. A frame is silent when its energy is
+  // 40 dB below the loudest frame; voiced when it is periodic (normalized
+  // autocorrelation >= 0.45, F0 in range) without the high zero-crossing rate of
+  // fricatives and breath noise; unvoiced otherwise.
+  private segment(samples: Float32Array, onProgress: (progress: number) => void): PitchTrack {
+    const frameSize = Math.round(PITCH_FRAME_DURATION * this.sampleRate);
+    const hopSize = Math.round(PITCH_HOP_DURATION * this.sampleRate);
+    const f0: number[] = [];
+    const strength: number[] = [];
+    const energies: number[] = [];
+    const crossingRates: number[] = [];
 
     for (let i = 0; i + frameSize < samples.length; i += hopSize) {
-      const frame = samples.slice(i, i + frameSize);
-      const pitch = this.autocorrelationPitch(frame);
-      if (pitch > 50 && pitch < 500) {
-        pitches.push(pitch);
+      if (f0.length % 50 === 0) onProgress(i / samples.length);
+      const frame = samples.subarray(i, i + frameSize);
+      const peak = this.normalizedAutocorrelationPeak(frame);
+      f0.push(peak.frequency);
+      strength.push(peak.strength);
+
+      let energy = 0;
+      let crossings = 0;
+      for (let j = 0; j < frame.length; j++) {
+        energy += frame[j] * frame[j];
+        if (j > 0 && (frame[j - 1] < 0) !== (frame[j] < 0)) crossings++;
       }
+      energies.push(energy / frame.length);
+      crossingRates.push(crossings * this.sampleRate / frame.length);
     }
 
-    if (pitches.length === 0) return 150; // Default fallback
-    
-    // Return median pitch
-    pitches.sort((a, b) => a - b);
-    return pitches[Math.floor(pitches.length / 2)];
+    // Reduced rather than spread: long recordings have more frames than the argument limit
+    const loudest = energies.reduce((max, energy) => Math.max(max, energy), 0);
+    const silenceFloor = Math.max(loudest * 1e-4, 1e-8);
+
+    const voicing = energies.map((energy, i): VoicingLabel => {
+      if (energy < silenceFloor) return 'silent';
+      return this.isVoiced(f0[i], strength[i], crossingRates[i]) ? 'voiced' : 'unvoiced';
+    });
+
+    return {
+      frameSize,
+      hopSize,
+      f0: f0.map((f, i) => (voicing[i] === 'voiced' ? f : 0)),
+      strength,
+      voicing,
+    };
   }
 
-  private autocorrelationPitch(frame: Float32Array): number {
-    const correlations: number[] = [];
-    const minLag = Math.floor(this.sampleRate / 500); // Max 500 Hz
-    const maxLag = Math.floor(this.sampleRate / 50);  // Min 50 Hz
+  private isVoiced(frequency: number, strength: number, crossingRate: number): boolean {
+    const periodic = strength >= VOICING_THRESHOLD && frequency >= MIN_F0 && frequency <= MAX_F0;
+    return periodic && crossingRate < MAX_VOICED_CROSSING_RATE;
+  }
 
-    for (let lag = minLag; lag < maxLag && lag < frame.length; lag++) {
-      let correlation = 0;
-      for (let i = 0; i < frame.length - lag; i++) {
-        correlation += frame[i] * frame[i + lag];
-      }
-      correlations.push(correlation);
+  // Single-frame pitch estimate for live feedback, using the same voicing
+  // criteria as the full analysis. Silence has to be ruled out by the caller.
+  estimatePitch(frame: Float32Array): { frequency: number; voiced: boolean } {
+    const { frequency, strength } = this.normalizedAutocorrelationPeak(frame);
+
+    let crossings = 0;
+    for (let j = 1; j < frame.length; j++) {
+      if ((frame[j - 1] < 0) !== (frame[j] < 0)) crossings++;
     }
 
-    // Find the peak
-    let maxCorr = -Infinity;
-    let maxLagIndex = 0;
-    for (let i = 0; i < correlations.length; i++) {
-      if (correlations[i] > maxCorr) {
-        maxCorr = correlations[i];
-        maxLagIndex = i;
+    const voiced = this.isVoiced(frequency, strength, crossings * this.sampleRate / frame.length);
+    return { frequency: voiced ? frequency : 0, voiced };
+  }
+
+  // Median F0 and its standard deviation over voiced frames; undefined without enough of them
+  private calculatePitchStatistics(track: PitchTrack): { pitch?: number; pitchVariation?: number } {
+    const pitches = track.f0.filter(f => f > 0);
+
+    return {
+      pitch: pitches.length > 0 ? median(pitches) : undefined,
+      pitchVariation: pitches.length >= 2 ? standardDeviation(pitches) : undefined,
+    };
+  }
+
+  // Best pitch candidate of a frame and its normalized autocorrelation (0-1)
+  private normalizedAutocorrelationPeak(frame: Float32Array): { frequency: number; strength: number } {
+    const minLag = Math.floor(this.sampleRate / MAX_F0);
+    const maxLag = Math.min(Math.floor(this.sampleRate / MIN_F0), frame.length - 1);
+
+    // Prefix energies let each lag be normalized by the energy of its overlapping parts
+    const energy = new Float64Array(frame.length + 1);
+    for (let i = 0; i < frame.length; i++) {
+      energy[i + 1] = energy[i] + frame[i] * frame[i];
+    }
+
+    const raw = autocorrelate(frame, Math.min(maxLag + 1, frame.length - 1));
+    const correlations = new Float64Array(maxLag + 2);
+    let best = 0;
+    for (let lag = minLag; lag <= maxLag + 1 && lag < frame.length; lag++) {
+      const norm = Math.sqrt(energy[frame.length - lag] * (energy[frame.length] - energy[lag]));
+      correlations[lag] = norm > 0 ? raw[lag] / norm : 0;
+      if (lag <= maxLag && correlations[lag] > best) best = correlations[lag];
+    }
+
+    if (best <= 0) return { frequency: 0, strength: 0 };
+
+    // Take the shortest lag that comes close to the best peak to avoid octave-down errors
+    let bestLag = 0;
+    for (let lag = minLag + 1; lag <= maxLag; lag++) {
+      const r = correlations[lag];
+      if (r >= 0.9 * best && r >= correlations[lag - 1] && r >= correlations[lag + 1]) {
+        bestLag = lag;
+        break;
       }
     }
+    if (bestLag === 0) return { frequency: 0, strength: 0 };
 
-    const bestLag = minLag + maxLagIndex;
-    return this.sampleRate / bestLag;
+    // Parabolic interpolation for a sub-sample lag
+    const a = correlations[bestLag - 1];
+    const b = correlations[bestLag];
+    const c = correlations[bestLag + 1];
+    const denom = a - 2 * b + c;
+    const offset = denom !== 0 ? 0.5 * (a - c) / denom : 0;
+
+    return {
+      frequency: this.sampleRate / (bestLag + offset),
+      strength: Math.min(1, b - 0.25 * (a - c) * offset),
+    };
   }
 
-  // Pitch variation (standard deviation of F0)
-  private calculatePitchVariation(samples: Float32Array): number {
-    const frameSize = 2048;
-    const hopSize = 512;
-    const pitches: number[] = [];
+  // Glottal cycle detection: pitch-synchronous peak picking guided by the F0 track.
+  // Returns runs of consecutive pulse positions (fractional sample indices); a new
+  // run starts wherever voicing breaks so no period spans an unvoiced gap.
+  private detectGlottalPulses(samples: Float32Array, track: PitchTrack): number[][] {
+    const polarity = this.dominantPolarity(samples);
+    const runs: number[][] = [];
+    let current: number[] = [];
 
-    for (let i = 0; i + frameSize < samples.length; i += hopSize) {
-      const frame = samples.slice(i, i + frameSize);
-      const pitch = this.autocorrelationPitch(frame);
-      if (pitch > 50 && pitch < 500) {
-        pitches.push(pitch);
+    const localPeriod = (position: number): number => {
+      const frame = Math.round((position - track.frameSize / 2) / track.hopSize);
+      const f0 = track.f0[Math.max(0, Math.min(track.f0.length - 1, frame))] ?? 0;
+      return f0 > 0 ? this.sampleRate / f0 : 0;
+    };
+
+    const closeRun = () => {
+      if (current.length >= 3) runs.push(current);
+      current = [];
+    };
+
+    let cursor = 0;
+    while (cursor < samples.length) {
+      const period = localPeriod(cursor);
+      if (period === 0) {
+        closeRun();
+        cursor += track.hopSize;
+        continue;
+      }
+
+      // Anchor a new run on the strongest peak of the first period, then step
+      // from pulse to pulse looking for the next peak one period (±20%) ahead
+      const peak = current.length === 0
+        ? this.findPeak(samples, cursor, cursor + period, polarity)
+        : this.findPeak(samples, cursor + 0.8 * period, cursor + 1.2 * period, polarity);
+
+      if (peak < 0) {
+        closeRun();
+        break;
       }
+
+      current.push(peak);
+      cursor = peak;
     }
+    closeRun();
 
-    if (pitches.length < 2) return 10; // Default
+    return runs;
+  }
 
-    const mean = pitches.reduce((a, b) => a + b, 0) / pitches.length;
-    const variance = pitches.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / pitches.length;
-    return Math.sqrt(variance);
+  // Sign of the larger excursion, so pulses are picked on the sharper side of the waveform
+  private dominantPolarity(samples: Float32Array): 1 | -1 {
+    let max = 0;
+    let min = 0;
+    for (let i = 0; i < samples.length; i++) {
+      if (samples[i] > max) max = samples[i];
+      if (samples[i] < min) min = samples[i];
+    }
+    return max >= -min ? 1 : -1;
   }
 
-  // Jitter: cycle-to-cycle frequency variation
-  private calculateJitter(samples: Float32Array, fundamentalFreq: number): number {
-    const periodSamples = Math.round(this.sampleRate / fundamentalFreq);
-    const periods: number[] = [];
+  // Position of the largest (polarity-adjusted) sample in [from, to), refined by
+  // parabolic interpolation. Returns -1 if the window runs past the signal.
+  private findPeak(samples: Float32Array, from: number, to: number, polarity: 1 | -1): number {
+    const start = Math.max(1, Math.ceil(from));
+    const end = Math.floor(to);
+    if (end >= samples.length - 1 || start >= end) return -1;
 
-    // Find zero crossings to estimate period lengths
-    let lastCrossing = 0;
-    for (let i = 1; i < samples.length; i++) {
-      if (samples[i - 1] <= 0 && samples[i] > 0) {
-        if (lastCrossing > 0) {
-          const period = i - lastCrossing;
-          if (period > periodSamples * 0.5 && period < periodSamples * 2) {
-            periods.push(period);
-          }
+    let peak = start;
+    for (let i = start + 1; i < end; i++) {
+      if (polarity * samples[i] > polarity * samples[peak]) peak = i;
+    }
+
+    const a = polarity * samples[peak - 1];
+    const b = polarity * samples[peak];
+    const c = polarity * samples[peak + 1];
+    const denom = a - 2 * b + c;
+    return denom !== 0 ? peak + 0.5 * (a - c) / denom : peak;
+  }
+
+  // Glottal cycles with their period and peak-to-peak amplitude, split wherever
+  // consecutive periods differ by more than a factor of 1.3 or fall outside the
+  // F0 search range (as Praat does)
+  private toCycleRuns(samples: Float32Array, pulses: number[][]): GlottalCycle[][] {
+    const polarity = this.dominantPolarity(samples);
+    const runs: GlottalCycle[][] = [];
+
+    for (const pulseRun of pulses) {
+      let current: GlottalCycle[] = [];
+      for (let i = 1; i < pulseRun.length; i++) {
+        const period = (pulseRun[i] - pulseRun[i - 1]) / this.sampleRate;
+        const previous = current[current.length - 1]?.period;
+        const inRange = period >= 1 / MAX_F0 && period <= 1 / MIN_F0;
+        const consistent = previous === undefined || (period / previous <= 1.3 && previous / period <= 1.3);
+
+        // Peak-to-peak amplitude: the pulse that opens the cycle down to the deepest
+        // opposite excursion before the next pulse
+        const peak = polarity * samples[Math.round(pulseRun[i - 1])];
+        let trough = Infinity;
+        for (let j = Math.ceil(pulseRun[i - 1]); j < pulseRun[i]; j++) {
+          if (polarity * samples[j] < trough) trough = polarity * samples[j];
+        }
+        const cycle = { period, amplitude: peak - trough };
+
+        if (!inRange || !consistent) {
+          if (current.length >= 2) runs.push(current);
+          current = inRange ? [cycle] : [];
+        } else {
+          current.push(cycle);
         }
-        lastCrossing = i;
       }
+      if (current.length >= 2) runs.push(current);
     }
 
-    if (periods.length < 2) return 0.5; // Default
+    return runs;
+  }
+
+  // Jitter: cycle-to-cycle variation of glottal periods (Praat definitions)
+  private calculateJitter(cycles: GlottalCycle[][]): JitterMeasures | null {
+    const periods = cycles.map(run => run.map(c => c.period));
+    const periodCount = periods.reduce((n, run) => n + run.length, 0);
+    if (periodCount < MIN_PERTURBATION_CYCLES) return null;
+
+    const meanPeriod = mean(periods);
+    const absolute = meanAbsDifference(periods);
+
+    return {
+      local: (absolute / meanPeriod) * 100,
+      absolute: absolute * 1e6,
+      rap: (perturbationQuotient(periods, 3) / meanPeriod) * 100,
+      ppq5: (perturbationQuotient(periods, 5) / meanPeriod) * 100,
+      ddp: (meanAbsSecondDifference(periods) / meanPeriod) * 100,
+    };
+  }
+
+  // Shimmer: cycle-to-cycle variation of glottal cycle amplitudes (Praat definitions)
+  private calculateShimmer(cycles: GlottalCycle[][]): ShimmerMeasures | null {
+    const amplitudes = cycles.map(run => run.map(c => c.amplitude).filter(a => a > 0));
+    const cycleCount = amplitudes.reduce((n, run) => n + run.length, 0);
+    if (cycleCount < MIN_PERTURBATION_CYCLES) return null;
+
+    const meanAmplitude = mean(amplitudes);
+    const db = meanAbsDifference(amplitudes.map(run => run.map(a => 20 * Math.log10(a))));
 
-    // Calculate jitter as average absolute difference between periods
-    let totalDiff = 0;
-    for (let i = 1; i < periods.length; i++) {
-      totalDiff += Math.abs(periods[i] - periods[i - 1]);
+    return {
+      local: (meanAbsDifference(amplitudes) / meanAmplitude) * 100,
+      db,
+      apq3: (perturbationQuotient(amplitudes, 3) / meanAmplitude) * 100,
+      apq5: (perturbationQuotient(amplitudes, 5) / meanAmplitude) * 100,
+      apq11: (perturbationQuotient(amplitudes, 11) / meanAmplitude) * 100,
+      dda: (meanAbsSecondDifference(amplitudes) / meanAmplitude) * 100,
+    };
+  }
+
+  // Harmonics-to-Noise Ratio (Boersma 1993): with r the normalized autocorrelation
+  // at the pitch period, the harmonic fraction of the frame's energy is r and the
+  // noise fraction 1 - r. Averaged over voiced frames only.
+  private calculateHarmonicity(track: PitchTrack): { hnr: number; nhr: number } | null {
+    let hnrSum = 0;
+    let nhrSum = 0;
+    let voicedFrames = 0;
+
+    for (let i = 0; i < track.f0.length; i++) {
+      if (track.voicing[i] !== 'voiced') continue;
+      const r = Math.min(track.strength[i], 0.99999);
+      hnrSum += 10 * Math.log10(r / (1 - r));
+      nhrSum += (1 - r) / r;
+      voicedFrames++;
     }
-    const avgDiff = totalDiff / (periods.length - 1);
-    const avgPeriod = periods.reduce((a, b) => a + b, 0) / periods.length;
-    
-    // Jitter percentage
-    return (avgDiff / avgPeriod) * 100;
+
+    if (voicedFrames === 0) return null;
+
+    return {
+      hnr: Math.max(0, Math.min(40, hnrSum / voicedFrames)), // Clamp to reasonable range
+      nhr: nhrSum / voicedFrames,
+    };
   }
 
-  // Shimmer: cycle-to-cycle amplitude variation
-  private calculateShimmer(samples: Float32Array): number {
-    const frameSize = 512;
-    const amplitudes: number[] = [];
+  // Longest stretch of consecutive glottal pulses, capped at half a second to
+  // bound the cost of the nonlinear measures below
+  private longestVoicedSegment(samples: Float32Array, pulses: number[][]): Float32Array {
+    let best: number[] | null = null;
+    for (const run of pulses) {
+      if (!best || run[run.length - 1] - run[0] > best[best.length - 1] - best[0]) best = run;
+    }
+    if (!best) return new Float32Array(0);
 
-    for (let i = 0; i + frameSize < samples.length; i += frameSize) {
-      const frame = samples.slice(i, i + frameSize);
-      let max = 0;
-      for (let j = 0; j < frame.length; j++) {
-        const abs = Math.abs(frame[j]);
-        if (abs > max) max = abs;
+    const start = Math.floor(best[0]);
+    const end = Math.min(Math.ceil(best[best.length - 1]), start + Math.floor(this.sampleRate * 0.5));
+    return samples.subarray(start, end);
+  }
+
+  // Recurrence Period Density Entropy (Little et al. 2007): normalized entropy of
+  // the distribution of times the embedded signal takes to return to the
+  // neighbourhood of a point. Near 0 for perfectly periodic, near 1 for noise.
+  private calculateRPDE(segment: Float32Array): number | null {
+    // Parameters from Little et al. at 25 kHz, scaled to the actual sample rate
+    const scale = this.sampleRate / 25000;
+    const dimension = 4;
+    const delay = Math.max(1, Math.round(35 * scale));
+    const maxPeriod = Math.round(1000 * scale);
+    const radius = 0.12;
+
+    const points = segment.length - (dimension - 1) * delay;
+    if (points <= maxPeriod) return null;
+
+    // Normalize to [-1, 1] so the fixed radius is meaningful
+    let peak = 0;
+    for (let i = 0; i < segment.length; i++) peak = Math.max(peak, Math.abs(segment[i]));
+    if (peak === 0) return null;
+    const x = segment.map(v => v / peak);
+
+    const distance = (i: number, j: number): number => {
+      let sum = 0;
+      for (let d = 0; d < dimension; d++) {
+        const diff = x[i + d * delay] - x[j + d * delay];
+        sum += diff * diff;
+      }
+      return Math.sqrt(sum);
+    };
+
+    const histogram = new Float64Array(maxPeriod + 1);
+    let total = 0;
+    for (let i = 0; i < points; i++) {
+      // Leave the neighbourhood first, then wait for the first return
+      let j = i + 1;
+      while (j < points && j - i <= maxPeriod && distance(i, j) < radius) j++;
+      while (j < points && j - i <= maxPeriod && distance(i, j) >= radius) j++;
+      if (j < points && j - i <= maxPeriod) {
+        histogram[j - i]++;
+        total++;
       }
-      amplitudes.push(max);
     }
 
-    if (amplitudes.length < 2) return 3; // Default
+    if (total === 0) return null;
 
-    // Calculate shimmer as average absolute difference between amplitudes
-    let totalDiff = 0;
-    for (let i = 1; i < amplitudes.length; i++) {
-      totalDiff += Math.abs(amplitudes[i] - amplitudes[i - 1]);
+    let entropy = 0;
+    for (let t = 1; t <= maxPeriod; t++) {
+      if (histogram[t] === 0) continue;
+      const p = histogram[t] / total;
+      entropy -= p * Math.log(p);
     }
-    const avgDiff = totalDiff / (amplitudes.length - 1);
-    const avgAmp = amplitudes.reduce((a, b) => a + b, 0) / amplitudes.length;
-    
-    // Shimmer percentage
-    return (avgDiff / avgAmp) * 100;
+    return entropy / Math.log(maxPeriod);
   }
 
-  // Harmonics-to-Noise Ratio (simplified estimation)
-  private calculateHNR(samples: Float32Array): number {
-    const frameSize = 2048;
-    let totalSignalPower = 0;
-    let totalNoisePower = 0;
+  // Detrended Fluctuation Analysis (Little et al. 2007): scaling exponent of the
+  // RMS fluctuation of the integrated signal around a per-window linear trend,
+  // mapped to (0, 1) with a logistic function as in the UCI dataset
+  private calculateDFA(segment: Float32Array): number | null {
+    const scale = this.sampleRate / 44100;
+    const windowSizes: number[] = [];
+    for (let size = 50; size <= 100; size += 10) {
+      windowSizes.push(Math.max(4, Math.round(size * scale)));
+    }
+    if (segment.length < windowSizes[windowSizes.length - 1] * 4) return null;
 
-    for (let i = 0; i + frameSize < samples.length; i += frameSize) {
-      const frame = samples.slice(i, i + frameSize);
-      
-      // Estimate signal power
-      let signalPower = 0;
-      for (let j = 0; j < frame.length; j++) {
-        signalPower += frame[j] * frame[j];
+    // Integrated, mean-removed profile
+    let signalMean = 0;
+    for (let i = 0; i < segment.length; i++) signalMean += segment[i];
+    signalMean /= segment.length;
+    const profile = new Float64Array(segment.length);
+    let cumulative = 0;
+    for (let i = 0; i < segment.length; i++) {
+      cumulative += segment[i] - signalMean;
+      profile[i] = cumulative;
+    }
+
+    const logSizes: number[] = [];
+    const logFluctuations: number[] = [];
+    for (const size of windowSizes) {
+      // Least-squares line through each window; x is centred so the fit is closed-form
+      const xMean = (size - 1) / 2;
+      let xVariance = 0;
+      for (let k = 0; k < size; k++) xVariance += (k - xMean) * (k - xMean);
+
+      let squaredResidual = 0;
+      let count = 0;
+      for (let start = 0; start + size <= profile.length; start += size) {
+        let yMean = 0;
+        for (let k = 0; k < size; k++) yMean += profile[start + k];
+        yMean /= size;
+        let covariance = 0;
+        for (let k = 0; k < size; k++) covariance += (k - xMean) * (profile[start + k] - yMean);
+        const slope = covariance / xVariance;
+        for (let k = 0; k < size; k++) {
+          const residual = profile[start + k] - (yMean + slope * (k - xMean));
+          squaredResidual += residual * residual;
+        }
+        count += size;
       }
-      signalPower /= frame.length;
-      
-      // Estimate noise using high-frequency content
-      // This is a simplified estimation
-      let noisePower = 0;
-      for (let j = 1; j < frame.length; j++) {
-        const diff = frame[j] - frame[j - 1];
-        noisePower += diff * diff;
+
+      const fluctuation = Math.sqrt(squaredResidual / count);
+      if (fluctuation <= 0) return null;
+      logSizes.push(Math.log(size));
+      logFluctuations.push(Math.log(fluctuation));
+    }
+
+    const alpha = linearRegressionSlope(logSizes, logFluctuations);
+    return 1 / (1 + Math.exp(-alpha));
+  }
+
+  // Pitch Period Entropy (Little et al. 2009): entropy of the cycle-to-cycle pitch
+  // in semitones after whitening with a short linear predictor, which removes
+  // smooth vibrato and microtremor so only the irregular part is measured
+  private calculatePPE(cycles: GlottalCycle[][]): number | null {
+    const order = 2;
+    const runs = cycles
+      .map(run => run.map(c => 12 * Math.log2(1 / c.period / 127.09)))
+      .filter(run => run.length > order + 1);
+    if (runs.length === 0) return null;
+
+    const overallMean = mean(runs);
+    const centred = runs.map(run => run.map(v => v - overallMean));
+
+    // Autocorrelation pooled over runs, then Yule-Walker for an order-2 predictor
+    const r = [0, 0, 0];
+    for (const run of centred) {
+      for (let lag = 0; lag <= order; lag++) {
+        for (let i = lag; i < run.length; i++) r[lag] += run[i] * run[i - lag];
       }
-      noisePower /= frame.length;
+    }
+    if (r[0] === 0) return null;
+    const det = r[0] * r[0] - r[1] * r[1];
+    const a1 = det !== 0 ? (r[1] * r[0] - r[1] * r[2]) / det : 0;
+    const a2 = det !== 0 ? (r[0] * r[2] - r[1] * r[1]) / det : 0;
 
-      totalSignalPower += signalPower;
-      totalNoisePower += noisePower * 0.1; // Scale factor
+    const residuals: number[] = [];
+    for (const run of centred) {
+      for (let i = order; i < run.length; i++) {
+        residuals.push(run[i] - a1 * run[i - 1] - a2 * run[i - 2]);
+      }
     }
 
-    if (totalNoisePower === 0) return 25; // Default high HNR
-    
-    // HNR in dB
-    const hnr = 10 * Math.log10(totalSignalPower / totalNoisePower);
-    return Math.max(0, Math.min(40, hnr)); // Clamp to reasonable range
+    // Histogram of residuals in 0.1 semitone bins over ±3 semitones
+    const bins = 60;
+    const histogram = new Float64Array(bins);
+    for (const e of residuals) {
+      const bin = Math.floor((e + 3) / 6 * bins);
+      histogram[Math.max(0, Math.min(bins - 1, bin))]++;
+    }
+
+    let entropy = 0;
+    for (let b = 0; b < bins; b++) {
+      if (histogram[b] === 0) continue;
+      const p = histogram[b] / residuals.length;
+      entropy -= p * Math.log(p);
+    }
+    return entropy / Math.log(bins);
   }
 
-  // Average amplitude (RMS)
-  private calculateAmplitude(samples: Float32Array): number {
+  // Average amplitude (RMS) over voiced frames
+  private calculateAmplitude(samples: Float32Array, track: PitchTrack): number {
     let sum = 0;
-    for (let i = 0; i < samples.length; i++) {
-      sum += samples[i] * samples[i];
-    }
-    return Math.sqrt(sum / samples.length);
-  }
-
-  // Formant estimation (simplified using LPC-like approach)
-  private calculateFormants(samples: Float32Array): number[] {
-    // Simplified formant estimation
-    // In a real implementation, you'd use LPC analysis
-    const frameSize = 2048;
-    const frame = samples.slice(0, Math.min(frameSize, samples.length));
-    
-    // Perform FFT
-    const fft = this.fft(frame);
-    const magnitudes = fft.map(c => Math.sqrt(c.re * c.re + c.im * c.im));
-    
-    // Find peaks in spectrum (simplified formant detection)
-    const formants: number[] = [];
-    const minFreq = 200;
-    const maxFreq = 4000;
-    const binWidth = this.sampleRate / frameSize;
-    
-    const startBin = Math.floor(minFreq / binWidth);
-    const endBin = Math.min(Math.floor(maxFreq / binWidth), magnitudes.length / 2);
-    
-    let prevMag = 0;
-    let rising = false;
-    
-    for (let i = startBin; i < endBin; i++) {
-      if (magnitudes[i] > prevMag) {
-        rising = true;
-      } else if (rising && magnitudes[i] < prevMag) {
-        // Found a peak
-        formants.push((i - 1) * binWidth);
-        rising = false;
-        if (formants.length >= 4) break;
+    let count = 0;
+    track.voicing.forEach((label, frame) => {
+      if (label !== 'voiced') return;
+      // Each sample is counted once even though frames overlap
+      const start = frame === 0 || track.voicing[frame - 1] !== 'voiced'
+        ? frame * track.hopSize
+        : (frame - 1) * track.hopSize + track.frameSize;
+      const end = Math.min(frame * track.hopSize + track.frameSize, samples.length);
+      for (let i = start; i < end; i++) {
+        sum += samples[i] * samples[i];
+        count++;
+      }
+    });
+    return count > 0 ? Math.sqrt(sum / count) : 0;
+  }
+
+  // Formant tracking by LPC: every voiced frame is modelled as an all-pole filter
+  // (autocorrelation method + Levinson-Durbin) whose complex pole pairs give the
+  // formant frequencies and bandwidths. F1-F4 are the four lowest plausible poles;
+  // a formant found in fewer than half the voiced frames is reported as missing.
+  private calculateFormants(samples: Float32Array, track: PitchTrack): { formants: (number | null)[]; stats: (FormantStats | null)[] } {
+    const missing = { formants: [null, null, null, null], stats: [null, null, null, null] };
+
+    const downsampled = downsampleForAnalysis(samples, this.sampleRate, FORMANT_MAX_SAMPLE_RATE);
+    const rate = downsampled.sampleRate;
+    const factor = this.sampleRate / rate;
+    const signal = Float64Array.from(downsampled.samples); // Pre-emphasized in place
+
+    // Pre-emphasis from 50 Hz flattens the glottal source tilt
+    const emphasis = Math.exp(-2 * Math.PI * 50 / rate);
+    for (let i = signal.length - 1; i > 0; i--) signal[i] -= emphasis * signal[i - 1];
+
+    const order = 10;
+    const frameSize = Math.round(0.025 * rate);
+    const hopSize = Math.round(0.01 * rate);
+    const window = Float64Array.from({ length: frameSize }, (_, i) => 0.54 - 0.46 * Math.cos(2 * Math.PI * i / (frameSize - 1)));
+
+    const tracks: { frequency: number; bandwidth: number }[][] = [[], [], [], []];
+    let voicedFrames = 0;
+
+    for (let start = 0; start + frameSize <= signal.length; start += hopSize) {
+      // Only frames whose centre falls in a voiced pitch frame
+      const centre = (start + frameSize / 2) * factor;
+      const pitchFrame = Math.round((centre - track.frameSize / 2) / track.hopSize);
+      if (track.voicing[pitchFrame] !== 'voiced') continue;
+
+      const frame = new Float64Array(frameSize);
+      for (let i = 0; i < frameSize; i++) frame[i] = signal[start + i] * window[i];
+
+      const coefficients = levinsonDurbin(autocorrelate(frame, order), order);
+      if (!coefficients) continue;
+      voicedFrames++;
+
+      const candidates = polynomialRoots(coefficients)
+        .filter(z => z.im > 0)
+        .map(z => ({
+          frequency: Math.atan2(z.im, z.re) * rate / (2 * Math.PI),
+          bandwidth: -Math.log(Math.hypot(z.re, z.im)) * rate / Math.PI,
+        }))
+        .filter(f => f.frequency > 90 && f.frequency < rate / 2 - 50 && f.bandwidth > 0 && f.bandwidth < 700)
+        .sort((x, y) => x.frequency - y.frequency);
+
+      candidates.slice(0, 4).forEach((candidate, i) => tracks[i].push(candidate));
+    }
+
+    if (voicedFrames === 0) return missing;
+
+    const stats = tracks.map(values => {
+      if (values.length < voicedFrames / 2) return null;
+      const frequencies = values.map(v => v.frequency);
+      const bandwidths = values.map(v => v.bandwidth);
+      return {
+        frequency: median(frequencies),
+        frequencySD: standardDeviation(frequencies),
+        bandwidth: median(bandwidths),
+        bandwidthSD: standardDeviation(bandwidths),
+      };
+    });
+
+    return { formants: stats.map(f => f?.frequency ?? null), stats };
+  }
+
+  // Syllable nuclei as peaks of the smoothed intensity contour (seconds). A peak
+  // only counts as a new syllable when the intensity dips at least 3 dB between
+  // it and the previous one and they are 60 ms or more apart; peaks more than
+  // 25 dB below the loudest are ignored.
+  private detectSyllableNuclei(samples: Float32Array): number[] {
+    const windowSize = Math.round(0.025 * this.sampleRate);
+    const hopSize = Math.round(0.005 * this.sampleRate);
+    const minDip = 3;
+    const minSpacing = 0.06;
+
+    const intensity: number[] = [];
+    for (let start = 0; start + windowSize <= samples.length; start += hopSize) {
+      let energy = 0;
+      for (let i = start; i < start + windowSize; i++) energy += samples[i] * samples[i];
+      intensity.push(10 * Math.log10(Math.max(energy / windowSize, 1e-12)));
+    }
+    if (intensity.length < 3) return [];
+
+    // Three-point moving average removes ripple from individual glottal pulses
+    const smoothed = intensity.map((_, i) => {
+      const from = Math.max(0, i - 1);
+      const to = Math.min(intensity.length - 1, i + 1);
+      let sum = 0;
+      for (let j = from; j <= to; j++) sum += intensity[j];
+      return sum / (to - from + 1);
+    });
+
+    const floor = smoothed.reduce((max, level) => Math.max(max, level), -Infinity) - 25;
+    const toSeconds = (frame: number) => (frame * hopSize + windowSize / 2) / this.sampleRate;
+
+    const peaks: number[] = [];
+    for (let i = 1; i < smoothed.length - 1; i++) {
+      if (smoothed[i] < floor || smoothed[i] < smoothed[i - 1] || smoothed[i] <= smoothed[i + 1]) continue;
+
+      const previous = peaks[peaks.length - 1];
+      if (previous === undefined) {
+        peaks.push(i);
+        continue;
       }
-      prevMag = magnitudes[i];
-    }
-    
-    // Ensure we have at least 3 formants
-    while (formants.length < 3) {
-      formants.push(500 + formants.length * 1000);
-    }
-    
-    return formants.slice(0, 4);
-  }
-
-  // Simple FFT implementation
-  private fft(input: Float32Array): { re: number; im: number }[] {
-    const n = input.length;
-    const output: { re: number; im: number }[] = [];
-    
-    for (let k = 0; k < n; k++) {
-      let re = 0;
-      let im = 0;
-      for (let t = 0; t < n; t++) {
-        const angle = (2 * Math.PI * t * k) / n;
-        re += input[t] * Math.cos(angle);
-        im -= input[t] * Math.sin(angle);
+
+      let dip = Infinity;
+      for (let j = previous; j <= i; j++) dip = Math.min(dip, smoothed[j]);
+      const separated = Math.min(smoothed[previous], smoothed[i]) - dip >= minDip
+        && toSeconds(i) - toSeconds(previous) >= minSpacing;
+
+      if (separated) peaks.push(i);
+      else if (smoothed[i] > smoothed[previous]) peaks[peaks.length - 1] = i;
+    }
+
+    return peaks.map(toSeconds);
+  }
+
+  // Diadochokinetic rate and regularity from syllable onset-to-onset intervals
+  private calculateDDK(samples: Float32Array): DDKFeatures | null {
+    const nuclei = this.detectSyllableNuclei(samples);
+    if (nuclei.length < 3) return null;
+
+    const intervals = nuclei.slice(1).map((t, i) => (t - nuclei[i]) * 1000);
+    const intervalMean = intervals.reduce((a, b) => a + b, 0) / intervals.length;
+
+    return {
+      syllableCount: nuclei.length,
+      rate: (nuclei.length - 1) / (nuclei[nuclei.length - 1] - nuclei[0]),
+      intervalMean,
+      intervalCV: standardDeviation(intervals) / intervalMean * 100,
+    };
+  }
+
+  // Connected-speech mode: prosody measures over the whole passage. F0 is
+  // expressed in semitones around the speaker's median so ranges compare across
+  // voices; syllables are intensity peaks that fall on voiced frames.
+  private calculateSpeechFeatures(samples: Float32Array, track: PitchTrack): SpeechFeatures | null {
+    const pitches = track.f0.filter(f => f > 0);
+    if (pitches.length < 2) return null;
+
+    const reference = median(pitches);
+    const semitones = pitches.map(f => 12 * Math.log2(f / reference));
+
+    const intensities: number[] = [];
+    track.voicing.forEach((label, frame) => {
+      if (label !== 'voiced') return;
+      const start = frame * track.hopSize;
+      let energy = 0;
+      for (let i = start; i < start + track.frameSize; i++) energy += samples[i] * samples[i];
+      intensities.push(10 * Math.log10(Math.max(energy / track.frameSize, 1e-12)));
+    });
+
+    const syllables = this.detectSyllableNuclei(samples)
+      .filter(time => track.voicing[this.trackFrameAt(track, time)] === 'voiced').length;
+
+    const { durations, span } = this.calculatePauses(track);
+    const pauseTime = durations.reduce((a, b) => a + b, 0);
+
+    return {
+      f0SD: standardDeviation(semitones),
+      f0Range: percentile(semitones, 95) - percentile(semitones, 5),
+      intensitySD: standardDeviation(intensities),
+      intensityRange: percentile(intensities, 95) - percentile(intensities, 5),
+      syllableCount: syllables,
+      speechRate: span > 0 ? syllables / span : 0,
+      articulationRate: span > pauseTime ? syllables / (span - pauseTime) : 0,
+      pauseCount: durations.length,
+      pauseRatio: span > 0 ? pauseTime / span : 0,
+      pauseDurations: durations.map(d => Math.round(d * 1000) / 1000),
+      pauseMean: durations.length > 0 ? pauseTime / durations.length : 0,
+      pauseMedian: durations.length > 0 ? median(durations) : 0,
+      pauseSD: durations.length > 1 ? standardDeviation(durations) : 0,
+    };
+  }
+
+  // Pauses in connected speech: non-voiced stretches of at least 250 ms between
+  // the first and last voiced frame, so lead-in and trailing silence don't count.
+  // `span` is the time from the first to the last voiced frame (s).
+  private calculatePauses(track: PitchTrack): { durations: number[]; span: number } {
+    const frameDuration = track.hopSize / this.sampleRate;
+    const first = track.voicing.indexOf('voiced');
+    const last = track.voicing.lastIndexOf('voiced');
+    if (first < 0) return { durations: [], span: 0 };
+
+    const durations: number[] = [];
+    let run = 0;
+    for (let i = first; i <= last; i++) {
+      if (track.voicing[i] !== 'voiced') {
+        run++;
+        continue;
       }
-      output.push({ re, im });
+      if (run * frameDuration >= MIN_PAUSE_DURATION) durations.push(run * frameDuration);
+      run = 0;
     }
-    
-    return output;
+
+    return { durations, span: (last - first + 1) * frameDuration };
   }
 
-  dispose() {
-    this.audioContext.close();
+  // Index of the pitch-track frame centred closest to `time` (s)
+  private trackFrameAt(track: PitchTrack, time: number): number {
+    const frame = Math.round((time * this.sampleRate - track.frameSize / 2) / track.hopSize);
+    return Math.min(track.voicing.length - 1, Math.max(0, frame));
   }
-}
 
-// Singleton instance
-let dspProcessor: DSPProcessor | null = null;
+  // MFCC pipeline (Hamming window, power spectrum, pre-emphasis, mel filterbank,
+  // log, DCT) plus spectral centroid, flux and 85% rolloff of the plain spectrum.
+  // Every frame is kept for the deltas, but only frames over voiced speech enter
+  // the summaries.
+  private calculateSpectralFeatures(samples: Float32Array, track: PitchTrack): {
+    mfcc: { mean: number[]; sd: number[] };
+    deltaMfcc: { mean: number[]; sd: number[] };
+    centroid: number;
+    flux: number;
+    rolloff: number;
+    frames: SpectralFrames;
+  } | null {
+    const frameSize = Math.round(MFCC_FRAME_DURATION * this.sampleRate);
+    const hopSize = Math.round(MFCC_HOP_DURATION * this.sampleRate);
+    const fftSize = nextPowerOfTwo(frameSize);
+    const bins = fftSize / 2 + 1;
+    const filters = melFilterbank(fftSize, this.sampleRate, MEL_BANDS, MEL_MAX_FREQUENCY);
+    const window = Array.from({ length: frameSize }, (_, i) => 0.54 - 0.46 * Math.cos(2 * Math.PI * i / (frameSize - 1)));
+    // Power response of the 0.97 pre-emphasis filter, applied in the frequency
+    // domain so centroid and rolloff still see the unweighted spectrum
+    const emphasis = Array.from({ length: bins }, (_, k) => 1 + 0.97 * 0.97 - 2 * 0.97 * Math.cos(2 * Math.PI * k / fftSize));
 
-export const getDSPProcessor = (): DSPProcessor => {
-  if (!dspProcessor) {
-    dspProcessor = new DSPProcessor();
+    const mfcc: number[][] = [];
+    const voiced: boolean[] = [];
+    const centroids: number[] = [];
+    const rolloffs: number[] = [];
+    const fluxes: number[] = [];
+    let previousSpectrum: Float64Array | null = null;
+
+    for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+      const re = new Float64Array(fftSize);
+      const im = new Float64Array(fftSize);
+      for (let i = 0; i < frameSize; i++) re[i] = samples[start + i] * window[i];
+      fft(re, im);
+
+      const power = new Float64Array(bins);
+      let total = 0;
+      for (let k = 0; k < bins; k++) {
+        power[k] = re[k] * re[k] + im[k] * im[k];
+        total += power[k];
+      }
+
+      const bandEnergies = filters.map(weights => {
+        let energy = 0;
+        for (let k = 0; k < bins; k++) energy += weights[k] * power[k] * emphasis[k];
+        return Math.log(Math.max(energy, 1e-12));
+      });
+      mfcc.push(dct(bandEnergies, MFCC_COUNT));
+
+      // Magnitude spectrum normalized to unit length, for flux
+      const magnitude = power.map(Math.sqrt);
+      const norm = Math.sqrt(total) || 1;
+      const spectrum = magnitude.map(m => m / norm);
+
+      const isVoiced = track.voicing[this.trackFrameAt(track, (start + frameSize / 2) / this.sampleRate)] === 'voiced';
+      voiced.push(isVoiced);
+
+      if (isVoiced && total > 0) {
+        let weighted = 0;
+        let magnitudeSum = 0;
+        for (let k = 0; k < bins; k++) {
+          weighted += k * magnitude[k];
+          magnitudeSum += magnitude[k];
+        }
+        centroids.push(weighted / magnitudeSum * this.sampleRate / fftSize);
+
+        let cumulative = 0;
+        let rolloffBin = bins - 1;
+        for (let k = 0; k < bins; k++) {
+          cumulative += power[k];
+          if (cumulative >= 0.85 * total) {
+            rolloffBin = k;
+            break;
+          }
+        }
+        rolloffs.push(rolloffBin * this.sampleRate / fftSize);
+
+        if (previousSpectrum) {
+          let flux = 0;
+          for (let k = 0; k < bins; k++) flux += (spectrum[k] - previousSpectrum[k]) ** 2;
+          fluxes.push(flux);
+        }
+      }
+      previousSpectrum = spectrum;
+    }
+
+    const deltaMfcc = deltas(mfcc);
+    const voicedMfcc = mfcc.filter((_, i) => voiced[i]);
+    if (voicedMfcc.length < 2) return null;
+
+    const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+    return {
+      mfcc: columnStatistics(voicedMfcc),
+      deltaMfcc: columnStatistics(deltaMfcc.filter((_, i) => voiced[i])),
+      centroid: average(centroids),
+      flux: average(fluxes),
+      rolloff: average(rolloffs),
+      frames: { frameStep: hopSize / this.sampleRate, mfcc, deltaMfcc, voiced },
+    };
   }
-  return dspProcessor;
-};
+
+  // Cepstral Peak Prominence (Hillenbrand): height of the cepstral peak in the F0
+  // range above a regression line through the cepstrum, averaged over voiced
+  // frames. CPPS first smooths the cepstra over 7 frames in time and 0.5 ms in
+  // quefrency, which makes it robust enough for connected speech.
+  private calculateCPP(samples: Float32Array, track: PitchTrack): { cpp: number; cpps: number } | null {
+    const { frameSize, hopSize } = track;
+    const window = Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (frameSize - 1)));
+    // Frames are sized in seconds, so zero-pad to the power of two the FFT needs;
+    // quefrency indices stay in samples whatever the padding
+    const fftSize = nextPowerOfTwo(frameSize);
+    const half = fftSize / 2;
+
+    // Power cepstrum in dB for every frame, up to half the padded length
+    const cepstra: Float64Array[] = track.voicing.map((_, frame) => {
+      const re = new Float64Array(fftSize);
+      const im = new Float64Array(fftSize);
+      for (let i = 0; i < frameSize; i++) re[i] = samples[frame * hopSize + i] * window[i];
+      fft(re, im);
+      for (let k = 0; k < fftSize; k++) {
+        re[k] = Math.log(Math.max(re[k] * re[k] + im[k] * im[k], 1e-20));
+        im[k] = 0;
+      }
+      fft(re, im, true);
+      const cepstrum = new Float64Array(half);
+      for (let q = 0; q < half; q++) cepstrum[q] = 10 * Math.log10(Math.max(re[q] * re[q], 1e-20));
+      return cepstrum;
+    });
+
+    const minQuefrency = Math.max(1, Math.round(0.001 * this.sampleRate));
+    const peakFrom = Math.floor(this.sampleRate / MAX_F0);
+    const peakTo = Math.min(half - 1, Math.ceil(this.sampleRate / MIN_F0));
+    const quefrencies = Array.from({ length: half - minQuefrency }, (_, i) => minQuefrency + i);
+
+    const prominence = (cepstrum: Float64Array): number => {
+      let peak = peakFrom;
+      for (let q = peakFrom; q <= peakTo; q++) {
+        if (cepstrum[q] > cepstrum[peak]) peak = q;
+      }
+      const values = quefrencies.map(q => cepstrum[q]);
+      const slope = linearRegressionSlope(quefrencies, values);
+      const intercept = values.reduce((a, b) => a + b, 0) / values.length
+        - slope * quefrencies.reduce((a, b) => a + b, 0) / quefrencies.length;
+      return cepstrum[peak] - (intercept + slope * peak);
+    };
+
+    const smoothInTime = (frame: number): Float64Array => {
+      const from = Math.max(0, frame - 3);
+      const to = Math.min(cepstra.length - 1, frame + 3);
+      const averaged = new Float64Array(half);
+      for (let f = from; f <= to; f++) {
+        for (let q = 0; q < half; q++) averaged[q] += cepstra[f][q] / (to - from + 1);
+      }
+      return averaged;
+    };
+
+    const quefrencySpan = Math.max(1, Math.round(0.0005 * this.sampleRate / 2));
+    const smoothInQuefrency = (cepstrum: Float64Array): Float64Array => cepstrum.map((_, q) => {
+      const from = Math.max(0, q - quefrencySpan);
+      const to = Math.min(half - 1, q + quefrencySpan);
+      let sum = 0;
+      for (let i = from; i <= to; i++) sum += cepstrum[i];
+      return sum / (to - from + 1);
+    });
+
+    const cpp: number[] = [];
+    const cpps: number[] = [];
+    track.voicing.forEach((label, frame) => {
+      if (label !== 'voiced') return;
+      cpp.push(prominence(cepstra[frame]));
+      cpps.push(prominence(smoothInQuefrency(smoothInTime(frame))));
+    });
+
+    if (cpp.length === 0) return null;
+    return {
+      cpp: cpp.reduce((a, b) => a + b, 0) / cpp.length,
+      cpps: cpps.reduce((a, b) => a + b, 0) / cpps.length,
+    };
+  }
+}
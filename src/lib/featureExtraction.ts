@@ -0,0 +1,119 @@
+// Feature extraction entry point for the UI
+// Audio is decoded on the main thread (Web Audio is not available in workers) and
+// the PCM is handed to a dedicated DSP worker so long recordings don't freeze the page.
+// When the recorder captured raw PCM itself, decoding is skipped entirely.
+
+import { Spectrogram, VoiceAnalysis, VoiceTaskType } from '@/types';
+import type { DSPWorkerRequest, DSPWorkerResponse } from '@/workers/dsp.worker';
+
+interface ExtractionOptions {
+  onProgress?: (progress: number) => void;  // 0-1
+  signal?: AbortSignal;                      // Aborting terminates the worker
+  task?: VoiceTaskType;                      // Adds task-specific measures (DDK, connected speech)
+  includeFrames?: boolean;                   // Keep the per-frame MFCC matrix
+}
+
+// Decode to mono PCM at the decoder's rate; also used to display stored recordings
+export const decodeAudio = async (audioBlob: Blob): Promise<DSPWorkerRequest> => {
+  const audioContext = new AudioContext();
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
+    // Copy so the buffer can be transferred without detaching the AudioBuffer's storage
+    return {
+      samples: new Float32Array(audioBuffer.getChannelData(0)),
+      sampleRate: audioBuffer.sampleRate,
+    };
+  } finally {
+    audioContext.close();
+  }
+};
+
+export const isExtractionCancelled = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Resolves with the analysis, or the spectrogram when one was requested
+const runWorker = <T extends VoiceAnalysis | Spectrogram>(
+  request: DSPWorkerRequest,
+  { onProgress, signal, task, includeFrames }: ExtractionOptions
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/dsp.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+
+    const cancel = () => {
+      finish();
+      reject(new DOMException('Feature extraction cancelled', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<DSPWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'result':
+          finish();
+          resolve(message.analysis as T);
+          break;
+        case 'spectrogram':
+          finish();
+          resolve(message.spectrogram as T);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.error));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Feature extraction worker failed'));
+    };
+
+    worker.postMessage({ ...request, task, includeFrames } satisfies DSPWorkerRequest, [request.samples.buffer]);
+  });
+};
+
+// Analyze an encoded recording (webm, mp4, wav...)
+export const extractFeatures = async (
+  audioBlob: Blob,
+  options: ExtractionOptions = {}
+): Promise<VoiceAnalysis> => {
+  const request = await decodeAudio(audioBlob);
+  options.signal?.throwIfAborted();
+  return runWorker<VoiceAnalysis>(request, options);
+};
+
+// Analyze raw PCM at its native rate, skipping the decoder's resampling.
+// The samples buffer is transferred to the worker and is unusable afterwards.
+export const extractFeaturesFromPCM = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: ExtractionOptions = {}
+): Promise<VoiceAnalysis> => {
+  if (options.signal?.aborted) {
+    return Promise.reject(new DOMException('Feature extraction cancelled', 'AbortError'));
+  }
+  return runWorker<VoiceAnalysis>({ samples, sampleRate }, options);
+};
+
+// Display spectrogram (see computeSpectrogram in dsp.ts), computed in the DSP worker.
+// The samples are copied, so the caller's buffer stays usable.
+export const computeSpectrogramInWorker = (
+  samples: Float32Array,
+  sampleRate: number,
+  maxFrequency: number,
+  signal?: AbortSignal
+): Promise<Spectrogram> => {
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Spectrogram cancelled', 'AbortError'));
+  }
+  return runWorker<Spectrogram>({ samples: samples.slice(), sampleRate, spectrogram: { maxFrequency } }, { signal });
+};
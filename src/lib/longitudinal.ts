@@ -0,0 +1,230 @@
+// Longitudinal analytics
+// Trend detection over a patient's test results, for the risk score and each of the
+// threshold features. Three views of the same series:
+//   - Linear regression against time gives the slope and its 95% confidence interval.
+//   - The Mann-Kendall test checks for a monotone trend without assuming linearity
+//     or normal residuals, so one outlying test can't make a trend on its own.
+//   - CUSUM change-point analysis finds a step change (e.g. after a medication
+//     change) that a slope would smear out; its significance comes from permutations.
+// A trend only counts as improving or worsening when Mann-Kendall is significant and
+// the regression slope interval excludes zero in the same direction.
+
+import { TestSession, Trend, TrendChangePoint, TrendDirection } from '@/types';
+import { DEFAULT_NORMS, THRESHOLD_FEATURES, ThresholdFeature } from '@/lib/clinicalThresholds';
+import { mean, normalCdf, seededRandom, tCritical95 } from '@/lib/statistics';
+
+export const TREND_CONFIG = {
+  MIN_TESTS: 5,             // Fewer tests can't reach significance in Mann-Kendall
+  ALPHA: 0.05,
+  PERMUTATIONS: 500,        // Shuffled series for the change-point confidence
+  CHANGE_CONFIDENCE: 0.95,
+  SEED: 0x7e4d,             // Fixed so the dashboard doesn't flicker between renders
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+}
+
+export interface RegressionResult {
+  slope: number;            // Per week
+  intercept: number;
+  lower: number;            // 95% confidence interval of the slope
+  upper: number;
+}
+
+export interface MannKendallResult {
+  s: number;
+  z: number;
+  pValue: number;           // Two-sided
+  tau: number;              // Kendall's tau, -1 to 1
+}
+
+// Least squares of value on time (weeks since the first point). Null when all
+// points share a date or there are too few to estimate the residual spread.
+export const linearRegression = (points: SeriesPoint[]): RegressionResult | null => {
+  const n = points.length;
+  if (n < 3) return null;
+
+  const t0 = new Date(points[0].date).getTime();
+  const xs = points.map(p => (new Date(p.date).getTime() - t0) / WEEK);
+  const ys = points.map(p => p.value);
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - xMean) ** 2;
+    sxy += (xs[i] - xMean) * (ys[i] - yMean);
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = yMean - slope * xMean;
+  const sse = xs.reduce((sum, x, i) => sum + (ys[i] - intercept - slope * x) ** 2, 0);
+  const standardError = Math.sqrt(sse / (n - 2) / sxx);
+  const margin = tCritical95(n - 2) * standardError;
+
+  return { slope, intercept, lower: slope - margin, upper: slope + margin };
+};
+
+// Mann-Kendall trend test with the tie correction and a continuity correction
+export const mannKendall = (values: number[]): MannKendallResult => {
+  const n = values.length;
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) s += Math.sign(values[j] - values[i]);
+  }
+
+  const ties = new Map<number, number>();
+  for (const v of values) ties.set(v, (ties.get(v) ?? 0) + 1);
+  let tieTerm = 0;
+  for (const t of ties.values()) tieTerm += t * (t - 1) * (2 * t + 5);
+  const variance = (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+
+  const z = s === 0 || variance === 0 ? 0 : (s - Math.sign(s)) / Math.sqrt(variance);
+  return {
+    s,
+    z,
+    pValue: 2 * (1 - normalCdf(Math.abs(z))),
+    tau: n > 1 ? s / (n * (n - 1) / 2) : 0,
+  };
+};
+
+// Range of the cumulative sum of deviations from the mean, and where it peaks
+const cusum = (values: number[]): { range: number; peak: number } => {
+  const m = mean(values);
+  let sum = 0;
+  let min = 0;
+  let max = 0;
+  let peak = 0;
+  let peakSize = -1;
+  // The full sum is zero, so the last point is left out
+  for (let i = 0; i < values.length - 1; i++) {
+    sum += values[i] - m;
+    min = Math.min(min, sum);
+    max = Math.max(max, sum);
+    if (Math.abs(sum) > peakSize) {
+      peakSize = Math.abs(sum);
+      peak = i;
+    }
+  }
+  return { range: max - min, peak };
+};
+
+// CUSUM change-point analysis (Taylor). The confidence is the share of shuffled
+// series whose CUSUM range is smaller than the observed one.
+export const detectChangePoint = (points: SeriesPoint[]): TrendChangePoint | undefined => {
+  if (points.length < TREND_CONFIG.MIN_TESTS) return undefined;
+
+  const values = points.map(p => p.value);
+  const observed = cusum(values);
+  if (observed.range === 0) return undefined;
+
+  const random = seededRandom(TREND_CONFIG.SEED);
+  const shuffled = values.slice();
+  const tolerance = observed.range * 1e-9;
+  let smaller = 0;
+  for (let k = 0; k < TREND_CONFIG.PERMUTATIONS; k++) {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    const range = cusum(shuffled).range;
+    // Every shuffle that keeps the shifted block together ties the observed range;
+    // ties count half (mid-p) so short series aren't penalized for them
+    if (range < observed.range - tolerance) smaller++;
+    else if (range <= observed.range + tolerance) smaller += 0.5;
+  }
+
+  const confidence = smaller / TREND_CONFIG.PERMUTATIONS;
+  if (confidence < TREND_CONFIG.CHANGE_CONFIDENCE) return undefined;
+
+  // The cumulative sum peaks at the last point before the shift
+  const split = observed.peak + 1;
+  return {
+    at: points[split].date,
+    before: mean(values.slice(0, split)),
+    after: mean(values.slice(split)),
+    confidence,
+  };
+};
+
+// `higherIsWorse` says which way of the series is a deterioration
+export const analyzeSeries = (series: SeriesPoint[], higherIsWorse: boolean): Trend => {
+  const points = series
+    .filter(p => Number.isFinite(p.value) && !isNaN(new Date(p.date).getTime()))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const n = points.length;
+
+  const regression = linearRegression(points);
+  if (n < TREND_CONFIG.MIN_TESTS || !regression) {
+    return {
+      direction: 'stable',
+      significant: false,
+      sufficient: false,
+      n,
+      pValue: null,
+      slopePerWeek: regression?.slope ?? null,
+      slopeInterval: null,
+    };
+  }
+
+  const mk = mannKendall(points.map(p => p.value));
+  const intervalExcludesZero = regression.lower > 0 || regression.upper < 0;
+  const significant = mk.pValue < TREND_CONFIG.ALPHA && intervalExcludesZero &&
+    Math.sign(mk.s) === Math.sign(regression.slope);
+
+  let direction: TrendDirection = 'stable';
+  if (significant) direction = (regression.slope > 0) === higherIsWorse ? 'worsening' : 'improving';
+
+  return {
+    direction,
+    significant,
+    sufficient: true,
+    n,
+    pValue: mk.pValue,
+    slopePerWeek: regression.slope,
+    slopeInterval: { lower: regression.lower, upper: regression.upper, level: 0.95 },
+    changePoint: detectChangePoint(points),
+  };
+};
+
+const sessionDate = (session: TestSession): string => session.completedAt || session.recording.recordedAt;
+
+// Trend of the predicted probability; rising risk is worsening
+export const analyzeRiskTrend = (sessions: TestSession[]): Trend =>
+  analyzeSeries(sessions.map(s => ({ date: sessionDate(s), value: s.prediction.probability })), true);
+
+export const analyzeFeatureTrends = (sessions: TestSession[]): Record<ThresholdFeature, Trend> => {
+  const trends = {} as Record<ThresholdFeature, Trend>;
+  for (const key of THRESHOLD_FEATURES) {
+    // Lower is worse for inverted features such as HNR
+    trends[key] = analyzeSeries(
+      sessions.map(s => ({ date: sessionDate(s), value: s.recording.features[key] })),
+      !DEFAULT_NORMS[key].inverted
+    );
+  }
+  return trends;
+};
+
+export interface PatientTrends {
+  risk: Trend;
+  features: Record<ThresholdFeature, Trend>;
+}
+
+export const analyzePatientTrends = (sessions: TestSession[]): PatientTrends => ({
+  risk: analyzeRiskTrend(sessions),
+  features: analyzeFeatureTrends(sessions),
+});
+
+// One-line evidence summary, e.g. "p = 0.012" or "Not significant (p = 0.31)"
+export const describeTrendEvidence = (trend: Trend): string => {
+  if (!trend.sufficient) return `Needs ${TREND_CONFIG.MIN_TESTS} tests`;
+  const p = trend.pValue < 0.001 ? 'p < 0.001' : `p = ${trend.pValue.toFixed(trend.pValue < 0.01 ? 3 : 2)}`;
+  return trend.significant ? p : `Not significant (${p})`;
+};
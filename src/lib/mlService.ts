@@ -1,7 +1,17 @@
-// ML Service - Mock predictions ready for real Python API integration
-// When your Python backend is ready, update the API_URL and adjust the request format
-
-import { VoiceFeatures, PredictionResult, MLPredictionRequest, MLPredictionResponse } from '@/types';
+// ML Service - Runs predictions through the model registry (src/lib/models)
+// Local models need no backend, including trained exports shipped under
+// public/models (see serializedModels.ts); when your Python backend is ready,
+// set the API_URL and turn off USE_MOCK to route predictions to the remote model
+
+import { VoiceFeatures, PredictionResult, PredictionSource, SpectralFrames } from '@/types';
+import { FALLBACK_MODEL_ID, getFallbackModel, getModel, registerModel } from '@/lib/models/registry';
+import { createRemoteModel, REMOTE_MODEL_ID } from '@/lib/models/remoteModel';
+import { isTransientError, ML_API_VERSION, ML_API_VERSION_HEADER } from '@/lib/models/remoteContract';
+import { loadBundledModels } from '@/lib/models/serializedModels';
+import { demographicsOf } from '@/lib/clinicalThresholds';
+import { getUserById } from '@/lib/storage';
+import { missingFeatures } from '@/lib/models/common';
+import { ModelInput, ModelKind, ModelOutput, PredictionModel } from '@/lib/models/types';
 
 // Configuration for ML API
 const ML_CONFIG = {
@@ -9,245 +19,148 @@ const ML_CONFIG = {
   API_URL: import.meta.env.VITE_ML_API_URL || null,
   USE_MOCK: true, // Set to false when real API is available
   TIMEOUT: 30000, // 30 seconds
+  // Registry id of the model used while the remote API is off (use VITE_ML_MODEL_ID env variable)
+  LOCAL_MODEL_ID: import.meta.env.VITE_ML_MODEL_ID || FALLBACK_MODEL_ID,
 };
 
-// Clinical thresholds based on research literature for Parkinson's detection
-// References: Tsanas et al., Little et al. studies on PD voice biomarkers
-const CLINICAL_THRESHOLDS = {
-  // Jitter (frequency perturbation) - healthy < 1.04%, PD typically > 1.5%
-  jitter: { healthy: 1.04, warning: 1.5, critical: 2.5 },
-  // Shimmer (amplitude perturbation) - healthy < 3.81%, PD typically > 5%
-  shimmer: { healthy: 3.81, warning: 5.0, critical: 8.0 },
-  // HNR (Harmonics-to-Noise Ratio) - healthy > 20dB, PD typically < 15dB
-  hnr: { healthy: 20, warning: 15, critical: 10 },
-  // Pitch variation - healthy has moderate variation, PD often shows reduced variation
-  pitchVariation: { healthy: 15, warning: 8, critical: 5 },
-};
+if (ML_CONFIG.API_URL) {
+  registerModel(createRemoteModel({ url: ML_CONFIG.API_URL, timeout: ML_CONFIG.TIMEOUT }));
+}
 
-// Calculate normalized score for each feature (0 = healthy, 1 = pathological)
-const normalizeFeature = (
-  value: number, 
-  thresholds: { healthy: number; warning: number; critical: number },
-  inverted: boolean = false
-): number => {
-  if (inverted) {
-    // For features where lower = worse (like HNR, pitch variation)
-    if (value >= thresholds.healthy) return 0;
-    if (value <= thresholds.critical) return 1;
-    if (value >= thresholds.warning) {
-      return (thresholds.healthy - value) / (thresholds.healthy - thresholds.warning) * 0.5;
-    }
-    return 0.5 + (thresholds.warning - value) / (thresholds.warning - thresholds.critical) * 0.5;
-  } else {
-    // For features where higher = worse (like jitter, shimmer)
-    if (value <= thresholds.healthy) return 0;
-    if (value >= thresholds.critical) return 1;
-    if (value <= thresholds.warning) {
-      return (value - thresholds.healthy) / (thresholds.warning - thresholds.healthy) * 0.5;
-    }
-    return 0.5 + (value - thresholds.warning) / (thresholds.critical - thresholds.warning) * 0.5;
-  }
+// Bundled exports and calibrations are fetched once, on the first prediction
+let bundledModels: Promise<void> | null = null;
+const ensureBundledModels = (): Promise<void> => {
+  bundledModels ??= loadBundledModels().then(models => models.forEach(registerModel));
+  return bundledModels;
 };
 
-// Mock prediction model based on clinical research
-const generateMockPrediction = (features: VoiceFeatures): Omit<PredictionResult, 'id' | 'recordingId' | 'patientId' | 'analyzedAt'> => {
-  // Normalize each feature to 0-1 scale based on clinical thresholds
-  const normalizedJitter = normalizeFeature(features.jitter, CLINICAL_THRESHOLDS.jitter, false);
-  const normalizedShimmer = normalizeFeature(features.shimmer, CLINICAL_THRESHOLDS.shimmer, false);
-  const normalizedHNR = normalizeFeature(features.hnr, CLINICAL_THRESHOLDS.hnr, true);
-  const normalizedPitchVar = normalizeFeature(features.pitchVariation, CLINICAL_THRESHOLDS.pitchVariation, true);
-
-  // Feature weights based on clinical importance (from research literature)
-  const weights = {
-    jitter: 0.30,      // Jitter is highly indicative
-    shimmer: 0.28,     // Shimmer is also very important
-    hnr: 0.25,         // HNR is a key biomarker
-    pitchVariation: 0.17, // Pitch variation is moderately important
-  };
-
-  // Calculate weighted probability score
-  const rawScore = 
-    weights.jitter * normalizedJitter +
-    weights.shimmer * normalizedShimmer +
-    weights.hnr * normalizedHNR +
-    weights.pitchVariation * normalizedPitchVar;
-
-  // Apply sigmoid for smooth probability curve
-  // No random noise - this is for accurate clinical assessment
-  const probability = rawScore;
-  
-  // Confidence based on signal quality (amplitude and duration)
-  const signalQuality = Math.min(1, features.amplitude * 10) * Math.min(1, features.duration / 3);
-  const confidence = 0.70 + signalQuality * 0.25; // 70-95% confidence range
-
-  // Determine risk level based on probability thresholds
-  // Conservative thresholds to minimize false positives
-  const riskLevel: 'low' | 'medium' | 'high' = 
-    probability > 0.65 ? 'high' : 
-    probability > 0.40 ? 'medium' : 'low';
-
-  // Feature importance for explainability
-  const featureImportance = [
-    { 
-      feature: 'Jitter', 
-      importance: weights.jitter, 
-      value: features.jitter,
-      status: features.jitter <= CLINICAL_THRESHOLDS.jitter.healthy ? 'normal' : 
-              features.jitter <= CLINICAL_THRESHOLDS.jitter.warning ? 'borderline' : 'elevated'
-    },
-    { 
-      feature: 'Shimmer', 
-      importance: weights.shimmer, 
-      value: features.shimmer,
-      status: features.shimmer <= CLINICAL_THRESHOLDS.shimmer.healthy ? 'normal' : 
-              features.shimmer <= CLINICAL_THRESHOLDS.shimmer.warning ? 'borderline' : 'elevated'
-    },
-    { 
-      feature: 'HNR', 
-      importance: weights.hnr, 
-      value: features.hnr,
-      status: features.hnr >= CLINICAL_THRESHOLDS.hnr.healthy ? 'normal' : 
-              features.hnr >= CLINICAL_THRESHOLDS.hnr.warning ? 'borderline' : 'low'
-    },
-    { 
-      feature: 'Pitch Variation', 
-      importance: weights.pitchVariation, 
-      value: features.pitchVariation,
-      status: features.pitchVariation >= CLINICAL_THRESHOLDS.pitchVariation.healthy ? 'normal' : 
-              features.pitchVariation >= CLINICAL_THRESHOLDS.pitchVariation.warning ? 'borderline' : 'reduced'
-    },
-  ].sort((a, b) => b.importance - a.importance);
-
-  // Generate detailed recommendation based on analysis
-  let recommendation: string;
-  const healthyFeatures = featureImportance.filter(f => f.status === 'normal').length;
-  
-  if (riskLevel === 'low') {
-    recommendation = `Your voice analysis shows ${healthyFeatures}/4 features within healthy ranges. ` +
-      `Jitter: ${features.jitter.toFixed(2)}% (healthy < ${CLINICAL_THRESHOLDS.jitter.healthy}%), ` +
-      `Shimmer: ${features.shimmer.toFixed(2)}% (healthy < ${CLINICAL_THRESHOLDS.shimmer.healthy}%), ` +
-      `HNR: ${features.hnr.toFixed(1)}dB (healthy > ${CLINICAL_THRESHOLDS.hnr.healthy}dB). ` +
-      `Continue regular monitoring and maintain healthy vocal habits.`;
-  } else if (riskLevel === 'medium') {
-    recommendation = `Some voice characteristics show mild variations from typical ranges. ` +
-      `This does not indicate a diagnosis but suggests continued monitoring. ` +
-      `Consider discussing these results with your healthcare provider during your next routine visit. ` +
-      `Factors like fatigue, stress, or recent illness can affect voice measurements.`;
-  } else {
-    recommendation = `The voice analysis indicates patterns that may warrant further clinical evaluation. ` +
-      `Please note: This is a screening tool, not a diagnostic. ` +
-      `Schedule an appointment with your neurologist for a comprehensive assessment including clinical examination.`;
-  }
-
-  return {
-    probability,
-    confidence,
-    riskLevel,
-    featureImportance,
-    recommendation,
-  };
+// Result provenance by model kind: the heuristic is reported as a mock score
+const SOURCE_BY_KIND: Record<ModelKind, PredictionSource> = {
+  heuristic: 'mock',
+  'logistic-regression': 'local',
+  'gradient-boosting': 'local',
+  onnx: 'local',
+  remote: 'remote',
 };
 
-// Call real ML API
-const callMLAPI = async (request: MLPredictionRequest): Promise<MLPredictionResponse> => {
-  if (!ML_CONFIG.API_URL) {
-    throw new Error('ML API URL not configured');
-  }
-
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), ML_CONFIG.TIMEOUT);
+// The model predictions are meant to come from, per the current configuration
+const configuredModelId = (): string =>
+  ML_CONFIG.USE_MOCK || !ML_CONFIG.API_URL ? ML_CONFIG.LOCAL_MODEL_ID : REMOTE_MODEL_ID;
 
-  try {
-    const response = await fetch(`${ML_CONFIG.API_URL}/predict`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        features: {
-          pitch: request.features.pitch,
-          pitch_variation: request.features.pitchVariation,
-          jitter: request.features.jitter,
-          shimmer: request.features.shimmer,
-          hnr: request.features.hnr,
-          duration: request.features.duration,
-          amplitude: request.features.amplitude,
-          formants: request.features.formants,
-        },
-        patient_id: request.patientId,
-        recording_id: request.recordingId,
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+// Models to try in order: the requested one, the configured local model (so an
+// unreachable API still gets a real offline model), then the threshold heuristic
+const modelChain = (modelId: string): PredictionModel[] => {
+  const chain = [getModel(modelId), getModel(ML_CONFIG.LOCAL_MODEL_ID), getFallbackModel()].filter(Boolean);
+  return [...new Set(chain)];
+};
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
+interface ModelRun {
+  model: PredictionModel;
+  output: ModelOutput;
+  skipped: string[];       // Why each earlier model in the chain did not score the recording
+  errors: unknown[];       // What each earlier model threw; missing features are not errors
+}
+
+// Run the first model in the chain that can score this recording
+const runModel = async (chain: PredictionModel[], input: ModelInput): Promise<ModelRun> => {
+  const skipped: string[] = [];
+  const errors: unknown[] = [];
+  let lastError: unknown = null;
+  for (const model of chain) {
+    const missing = missingFeatures(input.features, model.requiredFeatures);
+    if (missing.length > 0) {
+      console.warn(`Model ${model.id} is missing features (${missing.join(', ')})`);
+      skipped.push(`${model.name} is missing features (${missing.join(', ')})`);
+      errors.push(undefined);
+      continue;
     }
 
-    const data = await response.json();
-    return {
-      success: true,
-      prediction: {
-        id: data.prediction_id || crypto.randomUUID(),
-        recordingId: request.recordingId,
-        patientId: request.patientId,
-        analyzedAt: new Date().toISOString(),
-        probability: data.probability,
-        confidence: data.confidence,
-        riskLevel: data.risk_level,
-        featureImportance: data.feature_importance || [],
-        recommendation: data.recommendation || '',
-      },
-    };
-  } catch (error) {
-    clearTimeout(timeoutId);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    try {
+      return { model, output: await model.predict(input), skipped, errors };
+    } catch (error) {
+      console.warn(`Model ${model.id} failed:`, error);
+      skipped.push(`${model.name} failed: ${error instanceof Error ? error.message : String(error)}`);
+      errors.push(error);
+      lastError = error;
+    }
   }
+  throw lastError ?? new Error(skipped[0] ?? 'No prediction model could score this recording');
 };
 
 // Main prediction function
 export const getPrediction = async (
   features: VoiceFeatures,
   patientId: string,
-  recordingId: string
+  recordingId: string,
+  frames?: SpectralFrames,
+  modelId?: string
 ): Promise<PredictionResult> => {
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
+  await ensureBundledModels();
+  const targetId = modelId ?? configuredModelId();
+  const chain = modelChain(targetId);
 
-  if (ML_CONFIG.USE_MOCK || !ML_CONFIG.API_URL) {
-    // Use mock prediction
-    const mockResult = generateMockPrediction(features);
-    return {
-      id: crypto.randomUUID(),
-      recordingId,
-      patientId,
-      analyzedAt: new Date().toISOString(),
-      ...mockResult,
-    };
+  if (chain[0].id === FALLBACK_MODEL_ID) {
+    // Simulate processing delay
+    await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
   }
 
-  // Call real API
-  const response = await callMLAPI({ features, patientId, recordingId });
-  
-  if (!response.success || !response.prediction) {
-    // Fallback to mock if API fails
-    console.warn('ML API failed, using mock prediction:', response.error);
-    const mockResult = generateMockPrediction(features);
-    return {
-      id: crypto.randomUUID(),
-      recordingId,
-      patientId,
-      analyzedAt: new Date().toISOString(),
-      ...mockResult,
-    };
+  const demographics = demographicsOf(getUserById(patientId));
+  const { model, output, skipped, errors } = await runModel(chain, { features, frames, demographics, patientId, recordingId });
+
+  // Anything other than the targeted model scoring the recording is degraded mode
+  const degraded = model.id !== targetId;
+  const targeted = Boolean(getModel(targetId));
+  if (!targeted) {
+    console.warn(`Unknown prediction model "${targetId}"`);
+    skipped.unshift(`Model "${targetId}" is not available`);
   }
 
-  return response.prediction;
+  const result = toPredictionResult(model, output, patientId, recordingId, degraded ? skipped.join('; ') : undefined);
+  // Only a transient failure of the targeted model is worth re-scoring later
+  return degraded ? { ...result, retryable: targeted && isTransientError(errors[0]) } : result;
+};
+
+// Score with the configured model only, never falling back; throws when it can't.
+// Used to re-score recordings that were scored by a fallback (see predictionQueue.ts);
+// `testedAt` is when the recording was made, so age norms apply as of that date.
+export const getConfiguredPrediction = async (
+  features: VoiceFeatures,
+  patientId: string,
+  recordingId: string,
+  testedAt: Date
+): Promise<PredictionResult> => {
+  await ensureBundledModels();
+  const targetId = configuredModelId();
+  const model = getModel(targetId);
+  if (!model) throw new Error(`Model "${targetId}" is not available`);
+
+  const demographics = demographicsOf(getUserById(patientId), testedAt);
+  const { output } = await runModel([model], { features, demographics, patientId, recordingId });
+  return toPredictionResult(model, output, patientId, recordingId);
+};
+
+const toPredictionResult = (
+  model: PredictionModel,
+  output: ModelOutput,
+  patientId: string,
+  recordingId: string,
+  fallbackReason?: string
+): PredictionResult => {
+  const { modelVersion, ...prediction } = output;
+  return {
+    id: crypto.randomUUID(),
+    recordingId,
+    patientId,
+    analyzedAt: new Date().toISOString(),
+    ...prediction,
+    modelId: model.id,
+    modelVersion: modelVersion ?? model.version,
+    source: SOURCE_BY_KIND[model.kind],
+    // The remote API calibrates server-side, which the client cannot tell
+    calibrated: model.kind === 'remote' ? undefined : model.calibration.method !== 'none',
+    degraded: fallbackReason !== undefined,
+    fallbackReason,
+  };
 };
 
 // Check if ML service is available
@@ -259,6 +172,7 @@ export const checkMLServiceHealth = async (): Promise<boolean> => {
   try {
     const response = await fetch(`${ML_CONFIG.API_URL}/health`, {
       method: 'GET',
+      headers: { [ML_API_VERSION_HEADER]: String(ML_API_VERSION) },
       signal: AbortSignal.timeout(5000),
     });
     return response.ok;
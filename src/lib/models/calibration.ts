@@ -0,0 +1,200 @@
+// Probability calibration
+// Maps a model's raw score to a probability. Calibrations are fitted on a held-out
+// calibration set of (score, label) pairs, either with Platt scaling (a sigmoid in
+// the score) or isotonic regression (a monotone, piecewise-linear map). When the set
+// ships with the model, the calibration is also refitted on bootstrap resamples of
+// it; the spread of those refits at a given score is the prediction's interval.
+
+import { ModelCalibration, ProbabilityInterval } from '@/types';
+import { CalibrationSet } from '@/lib/models/types';
+import { quantile, seededRandom } from '@/lib/statistics';
+
+const BOOTSTRAP_CONFIG = {
+  SAMPLES: 200,
+  LEVEL: 0.95,
+  SEED: 0x5eed,            // Fixed so a recording always gets the same interval
+};
+
+const interpolate = (xs: number[], ys: number[], x: number): number => {
+  const last = xs.length - 1;
+  if (x <= xs[0]) return ys[0];
+  if (x >= xs[last]) return ys[last];
+
+  let lo = 0;
+  let hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] <= x) lo = mid;
+    else hi = mid;
+  }
+  const t = (x - xs[lo]) / (xs[hi] - xs[lo]);
+  return ys[lo] + t * (ys[hi] - ys[lo]);
+};
+
+export const applyCalibration = (score: number, calibration: ModelCalibration): number => {
+  switch (calibration.method) {
+    case 'platt':
+      return 1 / (1 + Math.exp(calibration.slope * score + calibration.intercept));
+    case 'isotonic':
+      return interpolate(calibration.scores, calibration.probabilities, score);
+    case 'none':
+      return score;
+  }
+};
+
+// Platt scaling by Newton's method with backtracking, using Platt's smoothed
+// targets to avoid overfitting (Lin, Lin & Weng 2007)
+export const fitPlatt = ({ scores, labels }: CalibrationSet): ModelCalibration => {
+  const positives = labels.filter(label => label === 1).length;
+  const negatives = labels.length - positives;
+  const hiTarget = (positives + 1) / (positives + 2);
+  const loTarget = 1 / (negatives + 2);
+  const targets = labels.map(label => (label === 1 ? hiTarget : loTarget));
+
+  // Negative log-likelihood, written to stay finite for large |fApB|
+  const objective = (a: number, b: number): number => scores.reduce((sum, score, i) => {
+    const fApB = score * a + b;
+    return sum + (fApB >= 0
+      ? targets[i] * fApB + Math.log1p(Math.exp(-fApB))
+      : (targets[i] - 1) * fApB + Math.log1p(Math.exp(fApB)));
+  }, 0);
+
+  let a = 0;
+  let b = Math.log((negatives + 1) / (positives + 1));
+  let value = objective(a, b);
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let h11 = 1e-12;
+    let h22 = 1e-12;
+    let h21 = 0;
+    let g1 = 0;
+    let g2 = 0;
+    scores.forEach((score, i) => {
+      const fApB = score * a + b;
+      const p = fApB >= 0 ? Math.exp(-fApB) / (1 + Math.exp(-fApB)) : 1 / (1 + Math.exp(fApB));
+      const d2 = p * (1 - p);
+      h11 += score * score * d2;
+      h22 += d2;
+      h21 += score * d2;
+      const d1 = targets[i] - p;
+      g1 += score * d1;
+      g2 += d1;
+    });
+    if (Math.abs(g1) < 1e-5 && Math.abs(g2) < 1e-5) break;
+
+    const det = h11 * h22 - h21 * h21;
+    const da = -(h22 * g1 - h21 * g2) / det;
+    const db = -(-h21 * g1 + h11 * g2) / det;
+    const descent = g1 * da + g2 * db;
+
+    let step = 1;
+    while (step >= 1e-10) {
+      const next = objective(a + step * da, b + step * db);
+      if (next < value + 1e-4 * step * descent) {
+        a += step * da;
+        b += step * db;
+        value = next;
+        break;
+      }
+      step /= 2;
+    }
+    if (step < 1e-10) break; // Line search failed; keep the best estimate
+  }
+
+  return { method: 'platt', slope: a, intercept: b };
+};
+
+// Isotonic regression by pool-adjacent-violators. Tied scores share a block, so
+// the fitted scores are strictly increasing.
+export const fitIsotonic = ({ scores, labels }: CalibrationSet): ModelCalibration => {
+  const order = scores.map((_, i) => i).sort((i, j) => scores[i] - scores[j]);
+  const blocks: { scoreSum: number; labelSum: number; count: number; top: number }[] = [];
+
+  for (const i of order) {
+    const last = blocks[blocks.length - 1];
+    if (last && last.top === scores[i]) {
+      last.scoreSum += scores[i];
+      last.labelSum += labels[i];
+      last.count++;
+    } else {
+      blocks.push({ scoreSum: scores[i], labelSum: labels[i], count: 1, top: scores[i] });
+    }
+
+    // Pool while the block means decrease
+    while (blocks.length > 1) {
+      const b = blocks[blocks.length - 1];
+      const a = blocks[blocks.length - 2];
+      if (a.labelSum / a.count <= b.labelSum / b.count) break;
+      a.scoreSum += b.scoreSum;
+      a.labelSum += b.labelSum;
+      a.count += b.count;
+      a.top = b.top;
+      blocks.pop();
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    scores: blocks.map(block => block.scoreSum / block.count),
+    probabilities: blocks.map(block => block.labelSum / block.count),
+  };
+};
+
+export const fitCalibration = (method: 'platt' | 'isotonic', set: CalibrationSet): ModelCalibration =>
+  method === 'platt' ? fitPlatt(set) : fitIsotonic(set);
+
+export interface Calibrator {
+  calibrate(score: number): { probability: number; interval?: ProbabilityInterval };
+}
+
+// `uncalibrated` turns a raw score into a probability when there is no calibration
+// (e.g. the logistic link). Intervals need both a fitted calibration and its set.
+export const createCalibrator = (
+  calibration: ModelCalibration,
+  set: CalibrationSet | undefined,
+  uncalibrated: (score: number) => number
+): Calibrator => {
+  if (calibration.method === 'none') {
+    return { calibrate: score => ({ probability: uncalibrated(score) }) };
+  }
+
+  const method = calibration.method;
+  let replicas: ModelCalibration[] | null = null;
+
+  // Refits are computed once, on the first prediction
+  const bootstrapReplicas = (): ModelCalibration[] => {
+    if (replicas) return replicas;
+    const random = seededRandom(BOOTSTRAP_CONFIG.SEED);
+    const n = set.scores.length;
+    replicas = Array.from({ length: BOOTSTRAP_CONFIG.SAMPLES }, () => {
+      const sample: CalibrationSet = { scores: [], labels: [] };
+      for (let i = 0; i < n; i++) {
+        const j = Math.floor(random() * n);
+        sample.scores.push(set.scores[j]);
+        sample.labels.push(set.labels[j]);
+      }
+      return fitCalibration(method, sample);
+    });
+    return replicas;
+  };
+
+  return {
+    calibrate: score => {
+      const probability = applyCalibration(score, calibration);
+      if (!set) return { probability };
+
+      const probabilities = bootstrapReplicas()
+        .map(replica => applyCalibration(score, replica))
+        .sort((x, y) => x - y);
+      const tail = (1 - BOOTSTRAP_CONFIG.LEVEL) / 2;
+      return {
+        probability,
+        interval: {
+          lower: quantile(probabilities, tail),
+          upper: quantile(probabilities, 1 - tail),
+          level: BOOTSTRAP_CONFIG.LEVEL,
+        },
+      };
+    },
+  };
+};
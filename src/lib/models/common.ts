@@ -0,0 +1,95 @@
+// Helpers shared by the prediction models
+
+import { PredictionSource, ProbabilityInterval, VoiceFeatures } from '@/types';
+import { RiskLevel } from '@/lib/riskBands';
+import { NumericFeature } from '@/lib/models/types';
+
+// Display names used in feature importance lists
+export const FEATURE_LABELS: Partial<Record<NumericFeature, string>> = {
+  pitch: 'Pitch',
+  pitchVariation: 'Pitch Variation',
+  jitter: 'Jitter',
+  jitterRAP: 'Jitter (RAP)',
+  jitterPPQ5: 'Jitter (PPQ5)',
+  shimmer: 'Shimmer',
+  shimmerDb: 'Shimmer (dB)',
+  shimmerAPQ11: 'Shimmer (APQ11)',
+  hnr: 'HNR',
+  nhr: 'NHR',
+  rpde: 'RPDE',
+  dfa: 'DFA',
+  ppe: 'PPE',
+  cpp: 'CPP',
+  cpps: 'CPPS',
+};
+
+// Every scalar VoiceFeatures key; the Record type keeps the list in step with VoiceFeatures
+const NUMERIC_FEATURE_KEYS: Record<NumericFeature, true> = {
+  pitch: true,
+  pitchVariation: true,
+  jitter: true,
+  jitterAbs: true,
+  jitterRAP: true,
+  jitterPPQ5: true,
+  jitterDDP: true,
+  shimmer: true,
+  shimmerDb: true,
+  shimmerAPQ3: true,
+  shimmerAPQ5: true,
+  shimmerAPQ11: true,
+  shimmerDDA: true,
+  hnr: true,
+  nhr: true,
+  rpde: true,
+  dfa: true,
+  ppe: true,
+  duration: true,
+  amplitude: true,
+  spectralCentroid: true,
+  spectralFlux: true,
+  spectralRolloff: true,
+  cpp: true,
+  cpps: true,
+};
+
+// Features a model can take as inputs, e.g. for validating model exports
+export const NUMERIC_FEATURES = Object.keys(NUMERIC_FEATURE_KEYS) as NumericFeature[];
+
+// How each prediction source is named wherever a result is shown or reported
+export const PREDICTION_SOURCE_LABELS: Record<PredictionSource, string> = {
+  remote: 'Remote model',
+  local: 'In-browser model',
+  mock: 'Threshold heuristic',
+};
+
+// e.g. "95% CI 42-61%"
+export const formatProbabilityInterval = ({ lower, upper, level }: ProbabilityInterval): string =>
+  `${Math.round(level * 100)}% CI ${Math.round(lower * 100)}-${Math.round(upper * 100)}%`;
+
+export const featureLabel = (feature: NumericFeature): string => FEATURE_LABELS[feature] ?? feature;
+
+export const sigmoid = (x: number): number => 1 / (1 + Math.exp(-x));
+
+// Features the model needs that this recording doesn't have
+export const missingFeatures = (features: VoiceFeatures, required: NumericFeature[]): NumericFeature[] =>
+  required.filter(feature => typeof features[feature] !== 'number' || !Number.isFinite(features[feature]));
+
+export const recommendationFor = (riskLevel: RiskLevel): string => {
+  switch (riskLevel) {
+    case 'low':
+      return 'Your voice measures are within typical ranges. Continue regular monitoring and maintain healthy vocal habits.';
+    case 'medium':
+      return `Some voice characteristics show mild variations from typical ranges. ` +
+        `This does not indicate a diagnosis but suggests continued monitoring. ` +
+        `Consider discussing these results with your healthcare provider during your next routine visit. ` +
+        `Factors like fatigue, stress, or recent illness can affect voice measurements.`;
+    case 'high':
+      return `The voice analysis indicates patterns that may warrant further clinical evaluation. ` +
+        `Please note: This is a screening tool, not a diagnostic. ` +
+        `Schedule an appointment with your neurologist for a comprehensive assessment including clinical examination.`;
+  }
+};
+
+// Shown in place of a probability interval when the model has no calibration
+export const UNCALIBRATED_NOTE =
+  'Uncalibrated score: no calibration set has been supplied for this model, so this is not a calibrated probability and has no confidence interval.';
@@ -0,0 +1,119 @@
+// Gradient-boosted decision trees: the log-odds are the base score plus the
+// learning-rate-weighted sum of one leaf value per tree
+
+import { ModelCalibration } from '@/types';
+import { featureLabel, recommendationFor, sigmoid } from '@/lib/models/common';
+import { createCalibrator } from '@/lib/models/calibration';
+import { riskLevelFor } from '@/lib/riskBands';
+import { CalibrationSet, NumericFeature, PredictionModel } from '@/lib/models/types';
+
+// Split nodes send values <= threshold to the left; `feature` indexes the spec's features
+export type TreeNode =
+  | { leaf: number }
+  | { feature: number; threshold: number; left: TreeNode; right: TreeNode };
+
+export interface GradientBoostingSpec {
+  id: string;
+  name: string;
+  version: string;
+  features: NumericFeature[];
+  baseScore: number;       // Log-odds before any tree
+  learningRate: number;
+  scaler?: { mean: number[]; scale: number[] }; // Applied before the trees when present
+  trees: TreeNode[];
+  calibration: ModelCalibration;
+  calibrationSet?: CalibrationSet; // Held-out logits and labels; enables probability intervals
+}
+
+const evaluateTree = (node: TreeNode, inputs: number[]): number => {
+  while (!('leaf' in node)) {
+    node = inputs[node.feature] <= node.threshold ? node.left : node.right;
+  }
+  return node.leaf;
+};
+
+// Number of splits on each feature, over all trees
+const countSplits = (node: TreeNode, counts: number[]): void => {
+  if ('leaf' in node) return;
+  counts[node.feature]++;
+  countSplits(node.left, counts);
+  countSplits(node.right, counts);
+};
+
+export const createGradientBoostingModel = (spec: GradientBoostingSpec): PredictionModel => {
+  // Split-frequency importance is a property of the model, not of one prediction
+  const splits = spec.features.map(() => 0);
+  spec.trees.forEach(tree => countSplits(tree, splits));
+  const totalSplits = splits.reduce((a, b) => a + b, 0) || 1;
+  const calibrator = createCalibrator(spec.calibration, spec.calibrationSet, sigmoid);
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    kind: 'gradient-boosting',
+    version: spec.version,
+    requiredFeatures: spec.features,
+    calibration: spec.calibration,
+    predict: async ({ features }) => {
+      const values = spec.features.map(feature => features[feature]);
+      const inputs = spec.scaler
+        ? values.map((v, i) => (v - spec.scaler.mean[i]) / spec.scaler.scale[i])
+        : values;
+      const logit = spec.trees.reduce(
+        (score, tree) => score + spec.learningRate * evaluateTree(tree, inputs),
+        spec.baseScore
+      );
+
+      const { probability, interval } = calibrator.calibrate(logit);
+      const riskLevel = riskLevelFor(probability);
+
+      const featureImportance = spec.features
+        .map((feature, i) => ({ feature: featureLabel(feature), importance: splits[i] / totalSplits, value: values[i] }))
+        .sort((a, b) => b.importance - a.importance);
+
+      return {
+        probability,
+        probabilityInterval: interval,
+        riskLevel,
+        featureImportance,
+        recommendation: recommendationFor(riskLevel),
+      };
+    },
+  };
+};
+
+// Demo ensemble of shallow trees with hand-set splits at the clinical limits.
+// Not trained on data; replace with a trained export.
+export const GRADIENT_BOOSTING_DEMO: GradientBoostingSpec = {
+  id: 'gradient-boosting',
+  name: 'Gradient-boosted trees (demo ensemble)',
+  version: '0.1.0',
+  features: ['jitter', 'shimmer', 'hnr', 'pitchVariation', 'ppe'],
+  baseScore: -1.2,
+  learningRate: 0.5,
+  trees: [
+    {
+      feature: 0, threshold: 1.04,
+      left: { feature: 2, threshold: 20, left: { leaf: 0.6 }, right: { leaf: -0.8 } },
+      right: { feature: 0, threshold: 1.5, left: { leaf: 0.8 }, right: { leaf: 1.6 } },
+    },
+    {
+      feature: 1, threshold: 3.81,
+      left: { leaf: -0.6 },
+      right: { feature: 1, threshold: 5, left: { leaf: 0.6 }, right: { leaf: 1.4 } },
+    },
+    {
+      feature: 2, threshold: 15,
+      left: { leaf: 1.2 },
+      right: { feature: 3, threshold: 8, left: { leaf: 0.8 }, right: { leaf: -0.4 } },
+    },
+    {
+      feature: 4, threshold: 0.3,
+      left: { leaf: -0.3 },
+      right: { leaf: 0.9 },
+    },
+  ],
+  calibration: { method: 'none' },
+};
+
+export const gradientBoostingModel = createGradientBoostingModel(GRADIENT_BOOSTING_DEMO);
@@ -0,0 +1,78 @@
+// Logistic regression on standardized voice features
+
+import { ModelCalibration } from '@/types';
+import { featureLabel, recommendationFor, sigmoid } from '@/lib/models/common';
+import { createCalibrator } from '@/lib/models/calibration';
+import { riskLevelFor } from '@/lib/riskBands';
+import { CalibrationSet, NumericFeature, PredictionModel } from '@/lib/models/types';
+
+export interface LogisticRegressionSpec {
+  id: string;
+  name: string;
+  version: string;
+  features: NumericFeature[];
+  mean: number[];          // Standardization, per feature
+  scale: number[];
+  coefficients: number[];  // Per standardized feature
+  intercept: number;
+  calibration: ModelCalibration;
+  calibrationSet?: CalibrationSet; // Held-out logits and labels; enables probability intervals
+}
+
+export const createLogisticRegressionModel = (spec: LogisticRegressionSpec): PredictionModel => {
+  // Uncalibrated, the logistic link already yields a probability
+  const calibrator = createCalibrator(spec.calibration, spec.calibrationSet, sigmoid);
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    kind: 'logistic-regression',
+    version: spec.version,
+    requiredFeatures: spec.features,
+    calibration: spec.calibration,
+    predict: async ({ features }) => {
+      const contributions = spec.features.map((feature, i) =>
+        spec.coefficients[i] * (features[feature] - spec.mean[i]) / spec.scale[i]
+      );
+      const logit = spec.intercept + contributions.reduce((a, b) => a + b, 0);
+
+      const { probability, interval } = calibrator.calibrate(logit);
+      const riskLevel = riskLevelFor(probability);
+
+      // Importance is each feature's share of the absolute log-odds contributions
+      const total = contributions.reduce((sum, c) => sum + Math.abs(c), 0) || 1;
+      const featureImportance = spec.features
+        .map((feature, i) => ({
+          feature: featureLabel(feature),
+          importance: Math.abs(contributions[i]) / total,
+          value: features[feature],
+        }))
+        .sort((a, b) => b.importance - a.importance);
+
+      return {
+        probability,
+        probabilityInterval: interval,
+        riskLevel,
+        featureImportance,
+        recommendation: recommendationFor(riskLevel),
+      };
+    },
+  };
+};
+
+// Demo coefficients, set by hand to follow the direction of the published PD
+// effects (higher perturbation and entropy, lower HNR and pitch variation).
+// They are not fitted to data; replace with a trained export.
+export const LOGISTIC_REGRESSION_DEMO: LogisticRegressionSpec = {
+  id: 'logistic-regression',
+  name: 'Logistic regression (demo coefficients)',
+  version: '0.1.0',
+  features: ['jitter', 'shimmer', 'hnr', 'pitchVariation', 'rpde', 'ppe'],
+  mean: [0.5, 3.0, 21, 15, 0.45, 0.2],
+  scale: [0.3, 1.5, 4, 8, 0.1, 0.1],
+  coefficients: [0.8, 0.7, -0.8, -0.5, 0.4, 0.6],
+  intercept: -1.5,
+  calibration: { method: 'none' },
+};
+
+export const logisticRegressionModel = createLogisticRegressionModel(LOGISTIC_REGRESSION_DEMO);
@@ -0,0 +1,111 @@
+// ONNX classifier run in the browser with onnxruntime-web (WASM backend).
+// The runtime is only downloaded once an ONNX model actually scores a recording.
+
+import type { InferenceSession, Tensor } from 'onnxruntime-web';
+import { ModelCalibration } from '@/types';
+import { featureLabel, recommendationFor, sigmoid } from '@/lib/models/common';
+import { createCalibrator } from '@/lib/models/calibration';
+import { riskLevelFor } from '@/lib/riskBands';
+import { CalibrationSet, NumericFeature, PredictionModel } from '@/lib/models/types';
+
+export interface OnnxModelSpec {
+  id: string;
+  name: string;
+  version: string;
+  url: string;             // Absolute or site-relative URL of the .onnx file
+  features: NumericFeature[];
+  scaler?: { mean: number[]; scale: number[] };
+  inputName?: string;      // Defaults to the graph's first input
+  outputName?: string;     // Defaults to the probability output, see pickOutput
+  outputIndex?: number;    // Element of the output holding the PD class; defaults to the last
+  outputKind: 'probability' | 'logit';
+  calibration: ModelCalibration;
+  calibrationSet?: CalibrationSet; // Held-out raw outputs and labels; enables probability intervals
+}
+
+// Output names skl2onnx and common converters give the class probabilities. Classifiers
+// also output the predicted label (int64), often first, which must not be read as a score.
+const PROBABILITY_OUTPUTS = ['probabilities', 'output_probability', 'probability'];
+
+// The named output, or else the first probability-named or float output; checked
+// to be a float32 tensor holding a single row of class scores
+const pickOutput = (spec: OnnxModelSpec, results: Record<string, Tensor>, outputNames: readonly string[]): Tensor => {
+  const name = spec.outputName
+    ?? PROBABILITY_OUTPUTS.find(n => outputNames.includes(n))
+    ?? outputNames.find(n => results[n]?.type === 'float32');
+  const output = name ? results[name] : undefined;
+  if (!output) {
+    throw new Error(`ONNX model ${spec.id} has no ${spec.outputName ? `output "${spec.outputName}"` : 'probability output'}`);
+  }
+  if (output.type !== 'float32') {
+    throw new Error(`ONNX model ${spec.id} output "${name}" is ${output.type}, expected float32`);
+  }
+  const rows = output.dims.length > 1 ? output.dims[0] : 1;
+  if (rows !== 1 || output.dims.length > 2) {
+    throw new Error(`ONNX model ${spec.id} output "${name}" has shape [${output.dims.join(', ')}], expected one row`);
+  }
+  return output;
+};
+
+export const createOnnxModel = (spec: OnnxModelSpec): PredictionModel => {
+  let session: Promise<InferenceSession> | null = null;
+  const calibrator = createCalibrator(
+    spec.calibration,
+    spec.calibrationSet,
+    spec.outputKind === 'logit' ? sigmoid : score => score
+  );
+
+  const getSession = () => {
+    if (!session) {
+      session = import('onnxruntime-web').then(ort => ort.InferenceSession.create(spec.url, { executionProviders: ['wasm'] }));
+      // A failed load is retried on the next prediction
+      session.catch(() => { session = null; });
+    }
+    return session;
+  };
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    kind: 'onnx',
+    version: spec.version,
+    requiredFeatures: spec.features,
+    calibration: spec.calibration,
+    predict: async ({ features }) => {
+      const ort = await import('onnxruntime-web');
+      const model = await getSession();
+
+      const values = spec.features.map(feature => features[feature]);
+      const inputs = spec.scaler
+        ? values.map((v, i) => (v - spec.scaler.mean[i]) / spec.scaler.scale[i])
+        : values;
+
+      const inputName = spec.inputName ?? model.inputNames[0];
+      const results = await model.run({
+        [inputName]: new ort.Tensor('float32', Float32Array.from(inputs), [1, inputs.length]),
+      });
+
+      const output = pickOutput(spec, results, model.outputNames).data as Float32Array;
+      const score = output[spec.outputIndex ?? output.length - 1];
+      if (!Number.isFinite(score)) throw new Error(`ONNX model ${spec.id} returned no score`);
+
+      const { probability, interval } = calibrator.calibrate(score);
+      const riskLevel = riskLevelFor(probability);
+
+      // The graph is opaque, so every input is listed with equal weight
+      const featureImportance = spec.features.map((feature, i) => ({
+        feature: featureLabel(feature),
+        importance: 1 / spec.features.length,
+        value: values[i],
+      }));
+
+      return {
+        probability,
+        probabilityInterval: interval,
+        riskLevel,
+        featureImportance,
+        recommendation: recommendationFor(riskLevel),
+      };
+    },
+  };
+};
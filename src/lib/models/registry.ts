@@ -0,0 +1,41 @@
+// Registry of the prediction models available to mlService
+
+import { ModelCalibration } from '@/types';
+import { createThresholdModel, thresholdModel } from '@/lib/models/thresholdModel';
+import { createLogisticRegressionModel, LOGISTIC_REGRESSION_DEMO, logisticRegressionModel } from '@/lib/models/logisticRegressionModel';
+import { createGradientBoostingModel, GRADIENT_BOOSTING_DEMO, gradientBoostingModel } from '@/lib/models/gradientBoostingModel';
+import { CalibrationSet, PredictionModel } from '@/lib/models/types';
+
+const models = new Map<string, PredictionModel>();
+
+// Registering a model under an existing id replaces it
+export const registerModel = (model: PredictionModel): void => {
+  models.set(model.id, model);
+};
+
+export const getModel = (id: string): PredictionModel | undefined => models.get(id);
+
+export const getModels = (): PredictionModel[] => [...models.values()];
+
+// The model every prediction falls back to; needs no training data or network
+export const FALLBACK_MODEL_ID = thresholdModel.id;
+
+// Looked up on each use, as a supplied calibration set replaces the registered model
+export const getFallbackModel = (): PredictionModel => models.get(FALLBACK_MODEL_ID) ?? thresholdModel;
+
+// Built-in models rebuilt with a calibration fitted on a supplied calibration set
+const BUILT_IN_MODELS: Record<string, (calibration: ModelCalibration, set: CalibrationSet) => PredictionModel> = {
+  [thresholdModel.id]: createThresholdModel,
+  [logisticRegressionModel.id]: (calibration, calibrationSet) =>
+    createLogisticRegressionModel({ ...LOGISTIC_REGRESSION_DEMO, calibration, calibrationSet }),
+  [gradientBoostingModel.id]: (calibration, calibrationSet) =>
+    createGradientBoostingModel({ ...GRADIENT_BOOSTING_DEMO, calibration, calibrationSet }),
+};
+
+export const calibrateBuiltInModel = (
+  id: string,
+  calibration: ModelCalibration,
+  set: CalibrationSet
+): PredictionModel | undefined => BUILT_IN_MODELS[id]?.(calibration, set);
+
+[thresholdModel, logisticRegressionModel, gradientBoostingModel].forEach(registerModel);
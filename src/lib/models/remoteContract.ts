@@ -0,0 +1,236 @@
+// Wire contract of the remote inference API (version 1)
+//
+// Every request carries the X-PD-API-Version header. Before the first prediction the
+// client calls GET /model-info, which must answer
+//   { "api_version": 1, "model_name": "...", "model_version": "...", "features": ["jitter", ...] }
+// where "features" are the snake_case request features the model needs. POST /predict
+// takes a PredictRequest and returns a PredictResponse. Anything that doesn't match is
+// rejected with an MLApiError rather than stored.
+
+import { z } from 'zod';
+import { MLPredictionRequest, PredictionResult, ProbabilityInterval, VoiceFeatures } from '@/types';
+
+export const ML_API_VERSION = 1;
+export const ML_API_VERSION_HEADER = 'X-PD-API-Version';
+
+export type MLApiErrorCode =
+  | 'network'              // Server unreachable
+  | 'timeout'
+  | 'http'                 // Non-2xx status
+  | 'invalid-request'      // Our payload failed validation, e.g. NaN features
+  | 'invalid-response'     // The server's payload failed validation
+  | 'version-mismatch'     // Server speaks another API version
+  | 'feature-mismatch';    // The server's model needs features this recording lacks
+
+export class MLApiError extends Error {
+  readonly code: MLApiErrorCode;
+  readonly status?: number;
+
+  constructor(code: MLApiErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'MLApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// Failures worth retrying later: the server was unreachable, slow or broken. Every
+// other failure (bad payloads, version or feature mismatches) repeats on every try.
+export const isTransientError = (error: unknown): boolean =>
+  error instanceof MLApiError &&
+  (error.code === 'network' || error.code === 'timeout' || (error.code === 'http' && error.status >= 500));
+
+// VoiceFeatures keys and their names on the wire
+const FEATURE_WIRE_NAMES = {
+  pitch: 'pitch',
+  pitchVariation: 'pitch_variation',
+  jitter: 'jitter',
+  jitterAbs: 'jitter_abs',
+  jitterRAP: 'jitter_rap',
+  jitterPPQ5: 'jitter_ppq5',
+  jitterDDP: 'jitter_ddp',
+  shimmer: 'shimmer',
+  shimmerDb: 'shimmer_db',
+  shimmerAPQ3: 'shimmer_apq3',
+  shimmerAPQ5: 'shimmer_apq5',
+  shimmerAPQ11: 'shimmer_apq11',
+  shimmerDDA: 'shimmer_dda',
+  hnr: 'hnr',
+  nhr: 'nhr',
+  rpde: 'rpde',
+  dfa: 'dfa',
+  ppe: 'ppe',
+  duration: 'duration',
+  amplitude: 'amplitude',
+  formants: 'formants',
+  mfccMean: 'mfcc_mean',
+  mfccSD: 'mfcc_sd',
+  deltaMfccMean: 'delta_mfcc_mean',
+  deltaMfccSD: 'delta_mfcc_sd',
+  spectralCentroid: 'spectral_centroid',
+  spectralFlux: 'spectral_flux',
+  spectralRolloff: 'spectral_rolloff',
+  cpp: 'cpp',
+  cpps: 'cpps',
+} as const satisfies Partial<Record<keyof VoiceFeatures, string>>;
+
+const finite = z.number().finite();
+const optionalNumber = finite.optional();
+const optionalVector = z.array(finite).optional();
+
+export const predictRequestSchema = z.object({
+  features: z.object({
+    pitch: finite,
+    pitch_variation: finite,
+    jitter: finite,
+    jitter_abs: optionalNumber,
+    jitter_rap: optionalNumber,
+    jitter_ppq5: optionalNumber,
+    jitter_ddp: optionalNumber,
+    shimmer: finite,
+    shimmer_db: optionalNumber,
+    shimmer_apq3: optionalNumber,
+    shimmer_apq5: optionalNumber,
+    shimmer_apq11: optionalNumber,
+    shimmer_dda: optionalNumber,
+    hnr: finite,
+    nhr: optionalNumber,
+    rpde: optionalNumber,
+    dfa: optionalNumber,
+    ppe: optionalNumber,
+    duration: finite,
+    amplitude: finite,
+    formants: z.array(finite.nullable()),
+    formant_bandwidths: z.array(finite.nullable()).optional(),
+    mfcc_mean: optionalVector,
+    mfcc_sd: optionalVector,
+    delta_mfcc_mean: optionalVector,
+    delta_mfcc_sd: optionalVector,
+    spectral_centroid: optionalNumber,
+    spectral_flux: optionalNumber,
+    spectral_rolloff: optionalNumber,
+    cpp: optionalNumber,
+    cpps: optionalNumber,
+  }),
+  frames: z.object({
+    frame_step: finite.positive(),
+    mfcc: z.array(z.array(finite)),
+    delta_mfcc: z.array(z.array(finite)),
+    voiced: z.array(z.boolean()),
+  }).optional(),
+  patient_id: z.string().min(1),
+  recording_id: z.string().min(1),
+  api_version: z.literal(ML_API_VERSION),
+});
+
+export const predictResponseSchema = z.object({
+  prediction_id: z.string().min(1).optional(),
+  probability: finite.min(0).max(1),
+  probability_interval: z.object({
+    lower: finite.min(0).max(1),
+    upper: finite.min(0).max(1),
+    level: finite.gt(0).lt(1),
+  }).refine(i => i.lower <= i.upper, 'lower must not exceed upper').optional(),
+  confidence: finite.min(0).max(1),
+  // Accepted for compatibility; the level is re-derived from the shared risk bands
+  risk_level: z.enum(['low', 'medium', 'high']).optional(),
+  feature_importance: z.array(z.object({
+    feature: z.string(),
+    importance: finite,
+    value: finite,
+  })).default([]),
+  recommendation: z.string().default(''),
+  model_version: z.string().min(1).optional(),
+});
+
+export const modelInfoSchema = z.object({
+  api_version: z.number().int().positive(),
+  model_name: z.string().min(1),
+  model_version: z.string().min(1),
+  features: z.array(z.string().min(1)),
+});
+
+// Validated payloads. Spelled out because zod's inferred types make every field
+// optional without strictNullChecks.
+export type PredictRequest = {
+  features: Record<string, number | number[] | (number | null)[] | undefined>;
+  frames?: { frame_step: number; mfcc: number[][]; delta_mfcc: number[][]; voiced: boolean[] };
+  patient_id: string;
+  recording_id: string;
+  api_version: typeof ML_API_VERSION;
+};
+
+export type PredictResponse = {
+  prediction_id?: string;
+  probability: number;
+  probability_interval?: ProbabilityInterval;
+  confidence: number;
+  risk_level?: PredictionResult['riskLevel'];
+  feature_importance: PredictionResult['featureImportance'];
+  recommendation: string;
+  model_version?: string;
+};
+
+export type ModelInfo = {
+  api_version: number;
+  model_name: string;
+  model_version: string;
+  features: string[];
+};
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues.map(i => `${i.path.join('.') || '(root)'} ${i.message}`).join('; ');
+
+export const parsePredictRequest = (request: MLPredictionRequest): PredictRequest => {
+  const features: Record<string, unknown> = {};
+  for (const [key, wireName] of Object.entries(FEATURE_WIRE_NAMES)) {
+    features[wireName] = request.features[key as keyof typeof FEATURE_WIRE_NAMES];
+  }
+  features.formant_bandwidths = request.features.formantStats?.map(f => f?.bandwidth ?? null);
+
+  const parsed = predictRequestSchema.safeParse({
+    features,
+    frames: request.frames && {
+      frame_step: request.frames.frameStep,
+      mfcc: request.frames.mfcc,
+      delta_mfcc: request.frames.deltaMfcc,
+      voiced: request.frames.voiced,
+    },
+    patient_id: request.patientId,
+    recording_id: request.recordingId,
+    api_version: ML_API_VERSION,
+  });
+  if (!parsed.success) {
+    throw new MLApiError('invalid-request', `Invalid prediction request: ${describeIssues(parsed.error)}`);
+  }
+  return parsed.data as PredictRequest;
+};
+
+export const parsePredictResponse = (data: unknown): PredictResponse => {
+  const parsed = predictResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new MLApiError('invalid-response', `Invalid prediction response: ${describeIssues(parsed.error)}`);
+  }
+  return parsed.data as PredictResponse;
+};
+
+export const parseModelInfo = (data: unknown): ModelInfo => {
+  const parsed = modelInfoSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new MLApiError('invalid-response', `Invalid model info: ${describeIssues(parsed.error)}`);
+  }
+
+  const info = parsed.data as ModelInfo;
+  if (info.api_version !== ML_API_VERSION) {
+    throw new MLApiError('version-mismatch', `ML API speaks version ${info.api_version}, this client speaks version ${ML_API_VERSION}`);
+  }
+  return info;
+};
+
+// Features the server's model expects that this request doesn't carry
+export const missingWireFeatures = (info: ModelInfo, request: PredictRequest): string[] =>
+  info.features.filter(name => {
+    if (name === 'frames') return !request.frames;
+    const value = request.features[name];
+    return value === undefined || (Array.isArray(value) && value.length === 0);
+  });
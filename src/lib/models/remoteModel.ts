@@ -0,0 +1,112 @@
+// Remote model: the Python inference service behind VITE_ML_API_URL
+
+import { MLPredictionRequest } from '@/types';
+import { ModelOutput, PredictionModel } from '@/lib/models/types';
+import { recommendationFor } from '@/lib/models/common';
+import { riskLevelFor } from '@/lib/riskBands';
+import {
+  missingWireFeatures,
+  MLApiError,
+  ML_API_VERSION,
+  ML_API_VERSION_HEADER,
+  ModelInfo,
+  parseModelInfo,
+  parsePredictRequest,
+  parsePredictResponse,
+} from '@/lib/models/remoteContract';
+
+export const REMOTE_MODEL_ID = 'remote-api';
+
+interface RemoteModelConfig {
+  url: string;
+  timeout: number;         // ms
+}
+
+const apiFetch = async (config: RemoteModelConfig, path: string, init: RequestInit = {}): Promise<unknown> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.timeout);
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.url}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        [ML_API_VERSION_HEADER]: String(ML_API_VERSION),
+      },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new MLApiError('timeout', `ML API did not answer ${path} within ${config.timeout / 1000}s`);
+    }
+    throw new MLApiError('network', `ML API unreachable: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  const serverVersion = response.headers.get(ML_API_VERSION_HEADER);
+  if (serverVersion !== null && Number(serverVersion) !== ML_API_VERSION) {
+    throw new MLApiError('version-mismatch', `ML API speaks version ${serverVersion}, this client speaks version ${ML_API_VERSION}`);
+  }
+  if (!response.ok) {
+    throw new MLApiError('http', `API error: ${response.status} on ${path}`, response.status);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new MLApiError('invalid-response', `ML API returned malformed JSON on ${path}`);
+  }
+};
+
+const fetchModelInfo = async (config: RemoteModelConfig): Promise<ModelInfo> =>
+  parseModelInfo(await apiFetch(config, '/model-info'));
+
+// Call real ML API
+const callMLAPI = async (config: RemoteModelConfig, info: ModelInfo, request: MLPredictionRequest): Promise<ModelOutput> => {
+  const body = parsePredictRequest(request);
+  const missing = missingWireFeatures(info, body);
+  if (missing.length > 0) {
+    throw new MLApiError('feature-mismatch', `${info.model_name} needs features this recording lacks: ${missing.join(', ')}`);
+  }
+
+  const data = parsePredictResponse(await apiFetch(config, '/predict', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+
+  const riskLevel = riskLevelFor(data.probability);
+  return {
+    probability: data.probability,
+    probabilityInterval: data.probability_interval,
+    confidence: data.confidence,
+    riskLevel,
+    featureImportance: data.feature_importance,
+    recommendation: data.recommendation || recommendationFor(riskLevel),
+    modelVersion: data.model_version ?? info.model_version,
+  };
+};
+
+export const createRemoteModel = (config: RemoteModelConfig): PredictionModel => {
+  let modelInfo: Promise<ModelInfo> | null = null;
+
+  return {
+    id: REMOTE_MODEL_ID,
+    name: 'Remote inference API',
+    kind: 'remote',
+    version: 'remote',
+    // What every request carries; anything else the server's model needs comes from /model-info
+    requiredFeatures: ['pitch', 'pitchVariation', 'jitter', 'shimmer', 'hnr', 'duration', 'amplitude'],
+    // Calibrated server-side
+    calibration: { method: 'none' },
+    predict: async ({ features, frames, patientId, recordingId }) => {
+      // Negotiated once per session; a failed negotiation is retried on the next prediction
+      modelInfo ??= fetchModelInfo(config).catch(error => {
+        modelInfo = null;
+        throw error;
+      });
+      return callMLAPI(config, await modelInfo, { features, frames, patientId, recordingId });
+    },
+  };
+};
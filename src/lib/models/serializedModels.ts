@@ -0,0 +1,240 @@
+// Models exported from the Python training pipeline and shipped as static assets.
+//
+// public/models/index.json lists the exports to load: { "models": ["voice-lr.json", ...] }.
+// Each export is a JSON document with "format": "pd-voice-model", "formatVersion": 1,
+// id, name, version, the ordered input features (VoiceFeatures keys), an optional
+// standardization scaler and calibration, and one of:
+//   "type": "logistic-regression" - coefficients (per feature) and intercept
+//   "type": "tree-ensemble"       - baseScore, learningRate and nested trees
+//   "type": "onnx"                - file (relative to the export), outputKind and
+//                                   optional inputName / outputName / outputIndex
+// An optional "calibrationSet" ({ method: "platt" | "isotonic", scores, labels }) holds
+// the model's raw scores on held-out recordings. Without a fitted "calibration" it is
+// fitted on load; either way it provides bootstrap intervals on the probability.
+//
+// The built-in models (registry.ts) are uncalibrated until the manifest supplies a
+// calibration set for them: { "calibrationSets": { "threshold-heuristic": "threshold-calibration.json" } },
+// each file holding the model's raw scores on held-out recordings in the same
+// { method, scores, labels } form.
+
+import { z } from 'zod';
+import { ModelCalibration } from '@/types';
+import { createLogisticRegressionModel } from '@/lib/models/logisticRegressionModel';
+import { createGradientBoostingModel, TreeNode } from '@/lib/models/gradientBoostingModel';
+import { createOnnxModel } from '@/lib/models/onnxModel';
+import { fitCalibration } from '@/lib/models/calibration';
+import { calibrateBuiltInModel } from '@/lib/models/registry';
+import { NUMERIC_FEATURES } from '@/lib/models/common';
+import { NumericFeature, PredictionModel } from '@/lib/models/types';
+
+const MANIFEST_URL = `${import.meta.env.BASE_URL}models/index.json`;
+
+const calibrationSchema = z.discriminatedUnion('method', [
+  z.object({ method: z.literal('none') }),
+  z.object({ method: z.literal('platt'), slope: z.number(), intercept: z.number() }),
+  z.object({
+    method: z.literal('isotonic'),
+    scores: z.array(z.number()).min(1),
+    probabilities: z.array(z.number().min(0).max(1)).min(1),
+  }),
+]).superRefine((calibration, ctx) => {
+  if (calibration.method !== 'isotonic') return;
+  const { scores, probabilities } = calibration;
+  if (scores.length !== probabilities.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'scores and probabilities must have equal length' });
+  }
+  if (scores.some((v, i) => i > 0 && v <= scores[i - 1])) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scores'], message: 'must be strictly increasing' });
+  }
+});
+
+const calibrationSetSchema = z.object({
+  method: z.enum(['platt', 'isotonic']),
+  scores: z.array(z.number()).min(2),
+  labels: z.array(z.union([z.literal(0), z.literal(1)])).min(2),
+}).refine(set => set.scores.length === set.labels.length, 'scores and labels must have equal length');
+
+const scalerSchema = z.object({
+  mean: z.array(z.number()),
+  scale: z.array(z.number().refine(v => v !== 0, 'scale must be non-zero')),
+});
+
+const treeSchema: z.ZodTypeAny = z.lazy(() => z.union([
+  z.object({ leaf: z.number() }),
+  z.object({ feature: z.number().int().nonnegative(), threshold: z.number(), left: treeSchema, right: treeSchema }),
+]));
+
+const baseSchema = z.object({
+  format: z.literal('pd-voice-model'),
+  formatVersion: z.literal(1),
+  id: z.string().min(1),
+  name: z.string().min(1),
+  version: z.string().min(1),
+  features: z.array(z.enum(NUMERIC_FEATURES as [NumericFeature, ...NumericFeature[]])).min(1),
+  scaler: scalerSchema.optional(),
+  calibration: calibrationSchema.default({ method: 'none' }),
+  calibrationSet: calibrationSetSchema.optional(),
+});
+
+const exportSchema = z.discriminatedUnion('type', [
+  baseSchema.extend({
+    type: z.literal('logistic-regression'),
+    coefficients: z.array(z.number()),
+    intercept: z.number(),
+  }),
+  baseSchema.extend({
+    type: z.literal('tree-ensemble'),
+    baseScore: z.number(),
+    learningRate: z.number().positive(),
+    trees: z.array(treeSchema).min(1),
+  }),
+  baseSchema.extend({
+    type: z.literal('onnx'),
+    file: z.string().min(1),
+    inputName: z.string().optional(),
+    outputName: z.string().optional(),
+    outputIndex: z.number().int().nonnegative().optional(),
+    outputKind: z.enum(['probability', 'logit']),
+  }),
+]).superRefine((model, ctx) => {
+  const n = model.features.length;
+  const check = (values: number[] | undefined, path: string) => {
+    if (values && values.length !== n) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: `expected ${n} values, one per feature` });
+    }
+  };
+  check(model.scaler?.mean, 'scaler.mean');
+  check(model.scaler?.scale, 'scaler.scale');
+  if (model.type === 'logistic-regression') check(model.coefficients, 'coefficients');
+
+  // Every split must index one of the model's features
+  const checkTree = (node: TreeNode, path: (string | number)[]) => {
+    if ('leaf' in node) return;
+    if (node.feature >= n) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'feature'], message: `feature index ${node.feature} is out of range (${n} features)` });
+    }
+    checkTree(node.left, [...path, 'left']);
+    checkTree(node.right, [...path, 'right']);
+  };
+  if (model.type === 'tree-ensemble') model.trees.forEach((tree, i) => checkTree(tree as TreeNode, ['trees', i]));
+});
+
+const manifestSchema = z.object({
+  models: z.array(z.string().min(1)),
+  calibrationSets: z.record(z.string().min(1)).default({}),
+});
+
+type Manifest = { models: string[]; calibrationSets: Record<string, string> };
+
+// Validated export. Spelled out because zod's inferred types make every field
+// optional without strictNullChecks.
+export type SerializedModel = {
+  id: string;
+  name: string;
+  version: string;
+  features: NumericFeature[];
+  scaler?: { mean: number[]; scale: number[] };
+  calibration: ModelCalibration;
+  calibrationSet?: { method: 'platt' | 'isotonic'; scores: number[]; labels: number[] };
+} & (
+  | { type: 'logistic-regression'; coefficients: number[]; intercept: number }
+  | { type: 'tree-ensemble'; baseScore: number; learningRate: number; trees: TreeNode[] }
+  | { type: 'onnx'; file: string; inputName?: string; outputName?: string; outputIndex?: number; outputKind: 'probability' | 'logit' }
+);
+
+// Build a registry model from a validated export; `url` resolves relative files
+export const createSerializedModel = (model: SerializedModel, url: string): PredictionModel => {
+  const features = model.features;
+  const set = model.calibrationSet;
+  const identity = {
+    id: model.id,
+    name: model.name,
+    version: model.version,
+    calibration: model.calibration.method === 'none' && set ? fitCalibration(set.method, set) : model.calibration,
+    calibrationSet: set && { scores: set.scores, labels: set.labels },
+  };
+
+  switch (model.type) {
+    case 'logistic-regression':
+      return createLogisticRegressionModel({
+        ...identity,
+        features,
+        mean: model.scaler?.mean ?? features.map(() => 0),
+        scale: model.scaler?.scale ?? features.map(() => 1),
+        coefficients: model.coefficients,
+        intercept: model.intercept,
+      });
+    case 'tree-ensemble':
+      return createGradientBoostingModel({
+        ...identity,
+        features,
+        baseScore: model.baseScore,
+        learningRate: model.learningRate,
+        trees: model.trees,
+        scaler: model.scaler,
+      });
+    case 'onnx':
+      return createOnnxModel({
+        ...identity,
+        features,
+        url: new URL(model.file, new URL(url, window.location.href)).href,
+        scaler: model.scaler,
+        inputName: model.inputName,
+        outputName: model.outputName,
+        outputIndex: model.outputIndex,
+        outputKind: model.outputKind,
+      });
+  }
+};
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status}`);
+  return response.json();
+};
+
+export const loadSerializedModel = async (url: string): Promise<PredictionModel> => {
+  const parsed = exportSchema.safeParse(await fetchJson(url));
+  if (!parsed.success) {
+    throw new Error(`Invalid model export ${url}: ${parsed.error.issues.map(i => `${i.path.join('.')} ${i.message}`).join('; ')}`);
+  }
+  return createSerializedModel(parsed.data as SerializedModel, url);
+};
+
+const loadCalibratedBuiltInModel = async (id: string, url: string): Promise<PredictionModel> => {
+  const parsed = calibrationSetSchema.safeParse(await fetchJson(url));
+  if (!parsed.success) {
+    throw new Error(`Invalid calibration set ${url}: ${parsed.error.issues.map(i => `${i.path.join('.')} ${i.message}`).join('; ')}`);
+  }
+  const { method, scores, labels } = parsed.data as SerializedModel['calibrationSet'];
+  const set = { scores, labels };
+  const model = calibrateBuiltInModel(id, fitCalibration(method, set), set);
+  if (!model) throw new Error(`Calibration set ${url} names unknown built-in model "${id}"`);
+  return model;
+};
+
+// Load every export listed in the manifest, and the built-in models rebuilt with
+// their calibration sets. A missing manifest means no bundled models; a broken
+// export or calibration set is skipped so the others still load.
+export const loadBundledModels = async (): Promise<PredictionModel[]> => {
+  let manifest: Manifest;
+  try {
+    manifest = manifestSchema.parse(await fetchJson(MANIFEST_URL)) as Manifest;
+  } catch {
+    return [];
+  }
+
+  const base = new URL(MANIFEST_URL, window.location.href);
+  const results = await Promise.allSettled([
+    ...manifest.models.map(file => loadSerializedModel(new URL(file, base).href)),
+    ...Object.entries(manifest.calibrationSets).map(([id, file]) =>
+      loadCalibratedBuiltInModel(id, new URL(file, base).href)
+    ),
+  ]);
+
+  return results.flatMap(result => {
+    if (result.status === 'fulfilled') return [result.value];
+    console.error('Skipping bundled model:', result.reason);
+    return [];
+  });
+};
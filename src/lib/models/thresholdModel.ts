@@ -0,0 +1,134 @@
+// Threshold heuristic: weighted distance of four classic voice measures from
+// their published healthy limits (lib/clinicalThresholds.ts). No training data involved; this is the
+// model every other model falls back to.
+
+import { ModelCalibration, VoiceFeatures } from '@/types';
+import { recommendationFor } from '@/lib/models/common';
+import { Calibrator, createCalibrator } from '@/lib/models/calibration';
+import { riskLevelFor } from '@/lib/riskBands';
+import { classifyFeature, ClinicalNorms, FeatureThreshold, getNorms, healthyRange } from '@/lib/clinicalThresholds';
+import { CalibrationSet, ModelOutput, PredictionModel } from '@/lib/models/types';
+
+// Calculate normalized score for each feature (0 = healthy, 1 = pathological)
+const normalizeFeature = (value: number, thresholds: FeatureThreshold): number => {
+  if (thresholds.inverted) {
+    // For features where lower = worse (like HNR, pitch variation)
+    if (value >= thresholds.healthy) return 0;
+    if (value <= thresholds.critical) return 1;
+    if (value >= thresholds.warning) {
+      return (thresholds.healthy - value) / (thresholds.healthy - thresholds.warning) * 0.5;
+    }
+    return 0.5 + (thresholds.warning - value) / (thresholds.warning - thresholds.critical) * 0.5;
+  } else {
+    // For features where higher = worse (like jitter, shimmer)
+    if (value <= thresholds.healthy) return 0;
+    if (value >= thresholds.critical) return 1;
+    if (value <= thresholds.warning) {
+      return (value - thresholds.healthy) / (thresholds.warning - thresholds.healthy) * 0.5;
+    }
+    return 0.5 + (value - thresholds.warning) / (thresholds.critical - thresholds.warning) * 0.5;
+  }
+};
+
+// Weighted threshold score based on clinical research
+const scoreFeatures = (features: VoiceFeatures, norms: ClinicalNorms, calibrator: Calibrator): ModelOutput => {
+  // Normalize each feature to 0-1 scale based on clinical thresholds
+  const normalizedJitter = normalizeFeature(features.jitter, norms.jitter);
+  const normalizedShimmer = normalizeFeature(features.shimmer, norms.shimmer);
+  const normalizedHNR = normalizeFeature(features.hnr, norms.hnr);
+  const normalizedPitchVar = normalizeFeature(features.pitchVariation, norms.pitchVariation);
+
+  // Feature weights based on clinical importance (from research literature)
+  const weights = {
+    jitter: 0.30,      // Jitter is highly indicative
+    shimmer: 0.28,     // Shimmer is also very important
+    hnr: 0.25,         // HNR is a key biomarker
+    pitchVariation: 0.17, // Pitch variation is moderately important
+  };
+
+  // Calculate weighted probability score
+  const rawScore = 
+    weights.jitter * normalizedJitter +
+    weights.shimmer * normalizedShimmer +
+    weights.hnr * normalizedHNR +
+    weights.pitchVariation * normalizedPitchVar;
+
+  // Uncalibrated, the weighted score is reported as is
+  // No random noise - this is for accurate clinical assessment
+  const { probability, interval } = calibrator.calibrate(rawScore);
+
+  // Determine risk level based on probability thresholds
+  const riskLevel = riskLevelFor(probability);
+
+  // Feature importance for explainability
+  const featureImportance = [
+    { 
+      feature: 'Jitter', 
+      importance: weights.jitter, 
+      value: features.jitter,
+      status: classifyFeature('jitter', features.jitter, norms)
+    },
+    { 
+      feature: 'Shimmer', 
+      importance: weights.shimmer, 
+      value: features.shimmer,
+      status: classifyFeature('shimmer', features.shimmer, norms)
+    },
+    { 
+      feature: 'HNR', 
+      importance: weights.hnr, 
+      value: features.hnr,
+      status: classifyFeature('hnr', features.hnr, norms)
+    },
+    { 
+      feature: 'Pitch Variation', 
+      importance: weights.pitchVariation, 
+      value: features.pitchVariation,
+      status: classifyFeature('pitchVariation', features.pitchVariation, norms)
+    },
+  ].sort((a, b) => b.importance - a.importance);
+
+  // Generate detailed recommendation based on analysis
+  let recommendation: string;
+  const healthyFeatures = featureImportance.filter(f => f.status === 'normal').length;
+  
+  if (riskLevel === 'low') {
+    recommendation = `Your voice analysis shows ${healthyFeatures}/4 features within healthy ranges. ` +
+      `Jitter: ${features.jitter.toFixed(2)}% (healthy ${healthyRange('jitter', norms)}), ` +
+      `Shimmer: ${features.shimmer.toFixed(2)}% (healthy ${healthyRange('shimmer', norms)}), ` +
+      `HNR: ${features.hnr.toFixed(1)} dB (healthy ${healthyRange('hnr', norms)}). ` +
+      `Continue regular monitoring and maintain healthy vocal habits.`;
+  } else {
+    recommendation = recommendationFor(riskLevel);
+  }
+
+  return {
+    probability,
+    probabilityInterval: interval,
+    riskLevel,
+    featureImportance,
+    recommendation,
+  };
+};
+
+// `calibrationSet` holds the weighted scores and labels of held-out recordings (see
+// serializedModels.ts for how one is supplied); without it the model is uncalibrated
+export const createThresholdModel = (
+  calibration: ModelCalibration = { method: 'none' },
+  calibrationSet?: CalibrationSet
+): PredictionModel => {
+  const calibrator = createCalibrator(calibration, calibrationSet, score => score);
+
+  return {
+    id: 'threshold-heuristic',
+    name: 'Clinical threshold heuristic',
+    kind: 'heuristic',
+    version: '1.1.0',
+    requiredFeatures: ['jitter', 'shimmer', 'hnr', 'pitchVariation'],
+    calibration,
+    // Thresholds follow the patient's sex- and age-specific norms when known
+    predict: async ({ features, demographics }) => scoreFeatures(features, getNorms(demographics), calibrator),
+  };
+};
+
+export const thresholdModel = createThresholdModel();
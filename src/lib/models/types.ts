@@ -0,0 +1,39 @@
+// Prediction model contract shared by every model in the registry
+
+import { Demographics, ModelCalibration, PredictionResult, SpectralFrames, VoiceFeatures } from '@/types';
+
+// Scalar VoiceFeatures keys a model can consume as inputs
+export type NumericFeature = {
+  [K in keyof VoiceFeatures]-?: VoiceFeatures[K] extends number | undefined ? K : never;
+}[keyof VoiceFeatures];
+
+export type ModelKind = 'heuristic' | 'logistic-regression' | 'gradient-boosting' | 'onnx' | 'remote';
+
+export interface ModelInput {
+  features: VoiceFeatures;
+  frames?: SpectralFrames;
+  demographics?: Demographics;
+  patientId: string;
+  recordingId: string;
+}
+
+// What a model produces; identity, timestamps and provenance are added by mlService
+export type ModelOutput = Omit<PredictionResult, 'id' | 'recordingId' | 'patientId' | 'analyzedAt' | 'modelId' | 'modelVersion' | 'source' | 'calibrated' | 'degraded' | 'fallbackReason' | 'retryable'> & {
+  modelVersion?: string;   // Overrides the declared version, e.g. as reported by the remote API
+};
+
+// Held-out (raw score, label) pairs a calibration is fitted on; labels are 1 for PD
+export interface CalibrationSet {
+  scores: number[];
+  labels: number[];
+}
+
+export interface PredictionModel {
+  id: string;
+  name: string;
+  kind: ModelKind;
+  version: string;
+  requiredFeatures: NumericFeature[];
+  calibration: ModelCalibration;
+  predict(input: ModelInput): Promise<ModelOutput>;
+}
@@ -1,25 +1,25 @@
 import jsPDF from 'jspdf';
 import { TestSession, VoiceFeatures, User } from '@/types';
 import { format } from 'date-fns';
-
-const CLINICAL_THRESHOLDS: Record<string, { healthy: number; warning: number; inverted?: boolean; label: string; unit: string; description: string }> = {
-  jitter: { healthy: 1.04, warning: 1.5, inverted: false, label: 'Jitter', unit: '%', description: 'Frequency variation' },
-  shimmer: { healthy: 3.81, warning: 5.0, inverted: false, label: 'Shimmer', unit: '%', description: 'Amplitude variation' },
-  hnr: { healthy: 20, warning: 15, inverted: true, label: 'HNR', unit: 'dB', description: 'Harmonics-to-Noise Ratio' },
-  pitchVariation: { healthy: 15, warning: 8, inverted: true, label: 'Pitch Variation', unit: 'Hz', description: 'Voice pitch stability' },
-};
-
-const getFeatureStatus = (feature: string, value: number): string => {
-  const t = CLINICAL_THRESHOLDS[feature];
-  if (t.inverted) {
-    if (value >= t.healthy) return 'Normal';
-    if (value >= t.warning) return 'Borderline';
-    return 'Abnormal';
-  } else {
-    if (value <= t.healthy) return 'Normal';
-    if (value <= t.warning) return 'Borderline';
-    return 'Abnormal';
-  }
+import { formatProbabilityInterval, PREDICTION_SOURCE_LABELS } from '@/lib/models/common';
+import { riskBandRange } from '@/lib/riskBands';
+import {
+  classifyFeature,
+  demographicsOf,
+  describeNorms,
+  FeatureStatus,
+  formatMeasure,
+  getNorms,
+  healthyRange,
+  THRESHOLD_FEATURE_INFO,
+  THRESHOLD_FEATURES,
+} from '@/lib/clinicalThresholds';
+
+const STATUS_LABELS: Record<FeatureStatus, string> = {
+  normal: 'Normal',
+  borderline: 'Borderline',
+  abnormal: 'Abnormal',
+  unmeasured: 'Not measured',
 };
 
 export const generateTestReportPDF = (session: TestSession, user: User): void => {
@@ -78,10 +78,33 @@ export const generateTestReportPDF = (session: TestSession, user: User): void =>
   
   doc.setFontSize(10);
   doc.setFont('helvetica', 'normal');
-  doc.text(`Risk Level: ${session.prediction.riskLevel.toUpperCase()}`, 20, yPos + 22);
-  doc.text(`Confidence: ${Math.round(session.prediction.confidence * 100)}%`, 20, yPos + 30);
+  doc.text(`Risk Level: ${session.prediction.riskLevel.toUpperCase()} (${riskBandRange(session.prediction.riskLevel)})`, 20, yPos + 22);
+  // Confidence is only reported by the remote API; local models give an interval when calibrated
+  const uncertaintyText = [
+    session.prediction.confidence !== undefined && `Confidence: ${Math.round(session.prediction.confidence * 100)}%`,
+    session.prediction.probabilityInterval && formatProbabilityInterval(session.prediction.probabilityInterval),
+    session.prediction.calibrated === false && 'Uncalibrated score, no confidence interval',
+  ].filter(Boolean).join('  |  ');
+  doc.text(uncertaintyText, 20, yPos + 30);
   doc.text('Risk Score', pageWidth - 50, yPos + 28);
 
+  // Provenance, with a warning when the configured model did not produce this score
+  const { prediction } = session;
+  doc.setFontSize(8);
+  doc.setTextColor(100, 100, 100);
+  const sourceLabel = prediction.source ? PREDICTION_SOURCE_LABELS[prediction.source] : 'Model';
+  doc.text(`${sourceLabel}: ${prediction.modelId ?? 'unknown'} v${prediction.modelVersion ?? '-'}`, 20, yPos + 42);
+
+  if (prediction.degraded) {
+    doc.setTextColor(180, 83, 9);
+    doc.setFont('helvetica', 'bold');
+    const fallbackNote = `FALLBACK RESULT: the configured prediction model was unavailable. ${prediction.fallbackReason ?? ''}`.trim();
+    const fallbackLines = doc.splitTextToSize(fallbackNote, pageWidth - 40);
+    doc.text(fallbackLines, 20, yPos + 47);
+    doc.setFont('helvetica', 'normal');
+    yPos += fallbackLines.length * 4;
+  }
+
   yPos += 50;
   doc.setTextColor(0, 0, 0);
 
@@ -103,18 +126,15 @@ export const generateTestReportPDF = (session: TestSession, user: User): void =>
   doc.text('Healthy Range', 145, yPos + 7);
   yPos += 12;
 
-  // Feature rows
-  const features = [
-    { key: 'jitter' as const, value: session.recording.features.jitter, healthyRange: '< 1.04%' },
-    { key: 'shimmer' as const, value: session.recording.features.shimmer, healthyRange: '< 3.81%' },
-    { key: 'hnr' as const, value: session.recording.features.hnr, healthyRange: '> 20 dB' },
-    { key: 'pitchVariation' as const, value: session.recording.features.pitchVariation, healthyRange: '> 15 Hz' },
-  ];
+  // Feature rows, rated against the norms for the patient's sex and age at test time
+  const demographics = demographicsOf(user, new Date(session.completedAt || session.recording.recordedAt));
+  const norms = getNorms(demographics);
 
   doc.setFont('helvetica', 'normal');
-  features.forEach((feature, index) => {
-    const threshold = CLINICAL_THRESHOLDS[feature.key];
-    const status = getFeatureStatus(feature.key, feature.value);
+  THRESHOLD_FEATURES.forEach((key, index) => {
+    const threshold = THRESHOLD_FEATURE_INFO[key];
+    const value = session.recording.features[key];
+    const status = STATUS_LABELS[classifyFeature(key, value, norms)];
     
     if (index % 2 === 0) {
       doc.setFillColor(249, 250, 251);
@@ -123,20 +143,29 @@ export const generateTestReportPDF = (session: TestSession, user: User): void =>
     
     doc.setTextColor(0, 0, 0);
     doc.text(threshold.label, 20, yPos + 5);
-    doc.text(`${feature.value.toFixed(2)} ${threshold.unit}`, 70, yPos + 5);
+    doc.text(formatMeasure(value, 2, ` ${threshold.unit}`), 70, yPos + 5);
     
     // Status with color
     const statusColor = status === 'Normal' ? [34, 197, 94] : 
-                       status === 'Borderline' ? [234, 179, 8] : [239, 68, 68];
+                       status === 'Borderline' ? [234, 179, 8] :
+                       status === 'Not measured' ? [100, 100, 100] : [239, 68, 68];
     doc.setTextColor(statusColor[0], statusColor[1], statusColor[2]);
     doc.text(status, 110, yPos + 5);
     
     doc.setTextColor(100, 100, 100);
-    doc.text(feature.healthyRange, 145, yPos + 5);
+    doc.text(healthyRange(key, norms), 145, yPos + 5);
     
     yPos += 12;
   });
 
+  const normsLabel = describeNorms(demographics);
+  if (normsLabel) {
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Healthy ranges adjusted for: ${normsLabel}`, 20, yPos + 2);
+    yPos += 6;
+  }
+
   yPos += 10;
   doc.setTextColor(0, 0, 0);
 
@@ -154,7 +183,7 @@ export const generateTestReportPDF = (session: TestSession, user: User): void =>
   doc.setFont('helvetica', 'normal');
   doc.text('Fundamental Pitch', 20, yPos + 8);
   doc.setFont('helvetica', 'bold');
-  doc.text(`${session.recording.features.pitch.toFixed(1)} Hz`, 20, yPos + 18);
+  doc.text(formatMeasure(session.recording.features.pitch, 1, ' Hz'), 20, yPos + 18);
 
   doc.setFont('helvetica', 'normal');
   doc.text('Recording Duration', 105, yPos + 8);
@@ -0,0 +1,169 @@
+// Prediction retry queue
+// Recordings scored by a fallback model are queued here and retried against the
+// configured model with exponential backoff. The queue lives in local storage so
+// pending work survives reloads; when a retry succeeds the session's prediction is
+// replaced and the fallback result is kept in its predictionHistory. Only transient
+// failures are retried: an entry that fails any other way, or runs out of attempts,
+// stays in the queue marked failed, so the UI can say so and offer a manual retry.
+
+import { getConfiguredPrediction } from '@/lib/mlService';
+import { isTransientError } from '@/lib/models/remoteContract';
+import {
+  createAlert,
+  getPendingPredictions,
+  getTestSessionByRecording,
+  setPendingPredictions,
+  updateTestSession,
+} from '@/lib/storage';
+import { PendingPrediction, PredictionResult, VoiceFeatures } from '@/types';
+
+const QUEUE_CONFIG = {
+  BASE_DELAY: 30 * 1000,        // First retry after 30 seconds
+  MAX_DELAY: 60 * 60 * 1000,    // Never wait more than an hour between attempts
+  MAX_ATTEMPTS: 30,             // Roughly a day of retries before giving up
+  // Time allowed for the session to be saved after its recording was queued
+  ORPHAN_GRACE: 10 * 60 * 1000,
+};
+
+// Exponential backoff with ±20% jitter so queued recordings don't retry in lockstep
+const backoffDelay = (attempts: number): number => {
+  const delay = Math.min(QUEUE_CONFIG.BASE_DELAY * 2 ** (attempts - 1), QUEUE_CONFIG.MAX_DELAY);
+  return delay * (0.8 + Math.random() * 0.4);
+};
+
+let timer: ReturnType<typeof setTimeout> | null = null;
+let running: Promise<void> | null = null;
+
+// Wake up when the next entry is due
+const scheduleNext = (): void => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+
+  const queue = getPendingPredictions().filter(entry => !entry.failedAt);
+  if (queue.length === 0) return;
+
+  const nextDue = Math.min(...queue.map(entry => new Date(entry.nextAttemptAt).getTime()));
+  timer = setTimeout(() => { processPredictionQueue(); }, Math.max(0, nextDue - Date.now()));
+};
+
+export const enqueuePrediction = (features: VoiceFeatures, patientId: string, recordingId: string): void => {
+  const queue = getPendingPredictions().filter(entry => entry.recordingId !== recordingId);
+  const now = Date.now();
+  queue.push({
+    recordingId,
+    patientId,
+    features,
+    queuedAt: new Date(now).toISOString(),
+    attempts: 0,
+    nextAttemptAt: new Date(now + backoffDelay(1)).toISOString(),
+  });
+  setPendingPredictions(queue);
+  scheduleNext();
+};
+
+// Swap the fallback result for the configured model's, keeping the old one for audit
+const applyRescore = (entry: PendingPrediction, prediction: PredictionResult): void => {
+  const session = getTestSessionByRecording(entry.recordingId);
+  if (!session) return;
+
+  const previous = session.prediction;
+  updateTestSession(session.id, {
+    prediction,
+    predictionHistory: [
+      ...(session.predictionHistory ?? []),
+      {
+        prediction: previous,
+        replacedAt: prediction.analyzedAt,
+        reason: `Re-scored by ${prediction.modelId} v${prediction.modelVersion} after fallback to ${previous.modelId}`,
+      },
+    ],
+  });
+
+  if (prediction.riskLevel !== previous.riskLevel) {
+    createAlert({
+      type: prediction.riskLevel === 'high' ? 'warning' : 'info',
+      title: 'Voice Analysis Updated',
+      message: `A voice test from ${new Date(session.completedAt).toLocaleDateString()} was re-analyzed by the full model. Risk level changed from ${previous.riskLevel} to ${prediction.riskLevel}.`,
+      patientId: session.patientId,
+      testSessionId: session.id,
+    });
+  }
+};
+
+const attempt = async (entry: PendingPrediction): Promise<PendingPrediction | null> => {
+  const session = getTestSessionByRecording(entry.recordingId);
+  if (!session) {
+    // The analysis was abandoned before its session was saved
+    const age = Date.now() - new Date(entry.queuedAt).getTime();
+    return age > QUEUE_CONFIG.ORPHAN_GRACE ? null : entry;
+  }
+  if (!session.prediction.degraded) return null; // Already re-scored
+
+  try {
+    const testedAt = new Date(session.completedAt || session.recording.recordedAt);
+    const prediction = await getConfiguredPrediction(entry.features, entry.patientId, entry.recordingId, testedAt);
+    applyRescore(entry, prediction);
+    return null;
+  } catch (error) {
+    const attempts = entry.attempts + 1;
+    const lastError = error instanceof Error ? error.message : String(error);
+    if (attempts >= QUEUE_CONFIG.MAX_ATTEMPTS || !isTransientError(error)) {
+      console.warn(`Giving up re-scoring recording ${entry.recordingId} after ${attempts} attempts:`, lastError);
+      createAlert({
+        type: 'info',
+        title: 'Voice Analysis Not Updated',
+        message: `A voice test from ${new Date(session.completedAt).toLocaleDateString()} could not be re-analyzed by the full model and keeps its fallback result. You can retry from your test history.`,
+        patientId: session.patientId,
+        testSessionId: session.id,
+      });
+      return { ...entry, attempts, lastError, failedAt: new Date().toISOString() };
+    }
+    return {
+      ...entry,
+      attempts,
+      lastError,
+      nextAttemptAt: new Date(Date.now() + backoffDelay(attempts)).toISOString(),
+    };
+  }
+};
+
+// Retry every due entry, or every entry when forced (e.g. the browser came back online)
+export const processPredictionQueue = (force = false): Promise<void> => {
+  running ??= (async () => {
+    const now = Date.now();
+    for (const entry of getPendingPredictions()) {
+      if (entry.failedAt) continue;
+      if (!force && new Date(entry.nextAttemptAt).getTime() > now) continue;
+
+      const updated = await attempt(entry);
+      // Re-read so entries queued while this attempt was in flight are kept
+      const queue = getPendingPredictions().filter(e => e.recordingId !== entry.recordingId);
+      setPendingPredictions(updated ? [...queue, updated] : queue);
+    }
+  })().finally(() => {
+    running = null;
+    scheduleNext();
+  });
+  return running;
+};
+
+export const isPredictionPending = (recordingId: string): boolean =>
+  getPendingPredictions().some(entry => entry.recordingId === recordingId && !entry.failedAt);
+
+// The queue entry of a recording whose re-scoring gave up, if any
+export const getFailedPrediction = (recordingId: string): PendingPrediction | undefined =>
+  getPendingPredictions().find(entry => entry.recordingId === recordingId && entry.failedAt);
+
+// Put a failed entry back in the queue with a fresh set of attempts and try it now
+export const retryFailedPrediction = (recordingId: string): Promise<void> => {
+  setPendingPredictions(getPendingPredictions().map(entry => entry.recordingId === recordingId && entry.failedAt
+    ? { ...entry, attempts: 0, failedAt: undefined, nextAttemptAt: new Date().toISOString() }
+    : entry));
+  return processPredictionQueue();
+};
+
+// Start retrying on app load; retry immediately whenever connectivity returns
+export const startPredictionQueue = (): void => {
+  window.addEventListener('online', () => { processPredictionQueue(true); });
+  processPredictionQueue();
+};
@@ -0,0 +1,130 @@
+// Recording quality gate
+// Decides whether a recording is good enough to be scored, before any prediction is made.
+// Features extracted from a failed recording are not trustworthy (measures the extractor can't
+// compute are missing, the rest rest on too little voice), so failed recordings must never reach the model.
+
+import { QualityReason, QualityReport, SignalMetrics, VoiceTaskType } from '@/types';
+
+// Limits for a sustained vowel recording
+export const QUALITY_LIMITS = {
+  // Recording length in seconds - guidelines ask for 5-10 s
+  duration: { warn: 5, fail: 2 },
+  // Share of frames with voice - a sustained vowel should be voiced throughout
+  voicedRatio: { warn: 0.6, fail: 0.3 },
+  // Glottal cycles needed for stable jitter/shimmer estimates
+  glottalCycles: { warn: 100, fail: 20 },
+  // Share of clipped samples - clipping destroys cycle amplitudes
+  clippingRatio: { warn: 0.001, fail: 0.01 },
+  // Voice level over background (dB)
+  snr: { warn: 30, fail: 15 },
+  // Background noise level (dBFS)
+  noiseFloor: { warn: -55, fail: -40 },
+};
+
+export type QualityLimits = typeof QUALITY_LIMITS;
+
+// DDK and reading are mostly consonants and pauses, so they are judged on length
+// and recording conditions rather than on the amount of steady voicing. Without
+// enough glottal cycles their jitter and shimmer are simply not reported (dsp.ts).
+export const TASK_QUALITY_LIMITS: Record<VoiceTaskType, QualityLimits> = {
+  'sustained-a': QUALITY_LIMITS,
+  'sustained-i': QUALITY_LIMITS,
+  'sustained-u': QUALITY_LIMITS,
+  ddk: {
+    ...QUALITY_LIMITS,
+    duration: { warn: 5, fail: 3 },
+    voicedRatio: { warn: 0.2, fail: 0.1 },
+    glottalCycles: { warn: 0, fail: 0 },
+  },
+  reading: {
+    ...QUALITY_LIMITS,
+    duration: { warn: 10, fail: 5 },
+    voicedRatio: { warn: 0.3, fail: 0.15 },
+    glottalCycles: { warn: 0, fail: 0 },
+  },
+};
+
+type GradedMetric = keyof QualityLimits;
+
+interface QualityRule {
+  metric: GradedMetric;
+  higherIsWorse: boolean;
+  messages: Record<'warn' | 'fail', (value: number, limits: QualityLimits) => string>;
+}
+
+const QUALITY_RULES: QualityRule[] = [
+  {
+    metric: 'duration',
+    higherIsWorse: false,
+    messages: {
+      fail: (v, l) => `Recording is too short (${v.toFixed(1)}s). Please record at least ${l.duration.warn} seconds.`,
+      warn: (v, l) => `Recording is shorter than recommended (${v.toFixed(1)}s of ${l.duration.warn}s).`,
+    },
+  },
+  {
+    metric: 'voicedRatio',
+    higherIsWorse: false,
+    messages: {
+      fail: v => `Little or no voice detected (${Math.round(v * 100)}% of the recording).`,
+      warn: v => `Voice was detected in only ${Math.round(v * 100)}% of the recording.`,
+    },
+  },
+  {
+    metric: 'glottalCycles',
+    higherIsWorse: false,
+    messages: {
+      fail: () => 'Not enough steady voicing to measure vocal perturbation.',
+      warn: () => 'Only a short stretch of steady voicing was found; perturbation measures may be unreliable.',
+    },
+  },
+  {
+    metric: 'clippingRatio',
+    higherIsWorse: true,
+    messages: {
+      fail: () => 'The recording is heavily clipped. Move the device further away or speak more softly.',
+      warn: () => 'Some parts of the recording are clipped.',
+    },
+  },
+  {
+    metric: 'snr',
+    higherIsWorse: false,
+    messages: {
+      fail: v => `Voice is barely above the background noise (SNR ${v.toFixed(0)} dB).`,
+      warn: v => `Background noise is noticeable (SNR ${v.toFixed(0)} dB).`,
+    },
+  },
+  {
+    metric: 'noiseFloor',
+    higherIsWorse: true,
+    messages: {
+      fail: v => `The room is too noisy (background ${v.toFixed(0)} dBFS). Find a quieter place.`,
+      warn: v => `Background noise is elevated (${v.toFixed(0)} dBFS).`,
+    },
+  },
+];
+
+export const assessRecordingQuality = (
+  metrics: SignalMetrics,
+  limits: QualityLimits = QUALITY_LIMITS
+): QualityReport => {
+  const reasons: QualityReason[] = [];
+
+  for (const rule of QUALITY_RULES) {
+    const value = metrics[rule.metric];
+    if (value === null) continue; // Not measurable on this recording
+
+    const { warn, fail } = limits[rule.metric];
+    const severity = rule.higherIsWorse
+      ? value > fail ? 'fail' : value > warn ? 'warn' : null
+      : value < fail ? 'fail' : value < warn ? 'warn' : null;
+
+    if (severity) {
+      reasons.push({ metric: rule.metric, severity, message: rule.messages[severity](value, limits) });
+    }
+  }
+
+  const status = reasons.some(r => r.severity === 'fail') ? 'fail'
+    : reasons.length > 0 ? 'warn' : 'pass';
+
+  return { status, reasons, metrics };
+};
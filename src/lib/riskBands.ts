@@ -0,0 +1,40 @@
+// Risk bands - the probability cut-offs between low, medium and high risk.
+// Models, pages, the PDF report and the chatbot all read them from here.
+// Override with VITE_RISK_BAND_MEDIUM / VITE_RISK_BAND_HIGH (probabilities, 0-1).
+
+import { PredictionResult } from '@/types';
+
+export type RiskLevel = PredictionResult['riskLevel'];
+
+// Conservative defaults to minimize false positives
+const DEFAULT_RISK_BANDS = { medium: 0.40, high: 0.65 };
+
+const loadRiskBands = (): typeof DEFAULT_RISK_BANDS => {
+  const medium = Number(import.meta.env.VITE_RISK_BAND_MEDIUM ?? DEFAULT_RISK_BANDS.medium);
+  const high = Number(import.meta.env.VITE_RISK_BAND_HIGH ?? DEFAULT_RISK_BANDS.high);
+  if (!(medium > 0 && medium < high && high < 1)) {
+    console.warn(`Ignoring invalid risk bands (medium ${medium}, high ${high})`);
+    return DEFAULT_RISK_BANDS;
+  }
+  return { medium, high };
+};
+
+// Lower probability bound of each band (exclusive above low)
+export const RISK_BANDS = loadRiskBands();
+
+export const riskLevelFor = (probability: number): RiskLevel =>
+  probability > RISK_BANDS.high ? 'high' :
+  probability > RISK_BANDS.medium ? 'medium' : 'low';
+
+// Display range of a band, e.g. "40-65%"
+export const riskBandRange = (level: RiskLevel): string => {
+  const percent = (p: number) => Math.round(p * 100);
+  switch (level) {
+    case 'low':
+      return `0-${percent(RISK_BANDS.medium)}%`;
+    case 'medium':
+      return `${percent(RISK_BANDS.medium)}-${percent(RISK_BANDS.high)}%`;
+    case 'high':
+      return `${percent(RISK_BANDS.high)}-100%`;
+  }
+};
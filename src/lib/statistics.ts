@@ -0,0 +1,40 @@
+// Small statistics helpers shared by calibration and the longitudinal analytics
+
+// Small seeded PRNG (mulberry32) for reproducible resampling
+export const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Linear interpolation between order statistics; `sorted` must be ascending
+export const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lo = Math.floor(position);
+  const hi = Math.ceil(position);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (position - lo);
+};
+
+export const mean = (values: number[]): number =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_975 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+// Beyond 30 degrees of freedom the normal value is close enough
+export const tCritical95 = (df: number): number =>
+  df < 1 ? Infinity : df <= T_975.length ? T_975[Math.floor(df) - 1] : 1.96;
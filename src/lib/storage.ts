@@ -1,13 +1,18 @@
 // Local Storage Management for Demo Mode
 // This will be replaced with Supabase/Cloud when backend is enabled
 
-import { User, Patient, Doctor, TestSession, Alert } from '@/types';
+import { User, Patient, Doctor, TestSession, Alert, CaptureProfile, PendingPrediction } from '@/types';
+import { clearRecordingAudio } from '@/lib/audioStore';
+import { riskLevelFor } from '@/lib/riskBands';
+import { thresholdModel } from '@/lib/models/thresholdModel';
 
 const STORAGE_KEYS = {
   CURRENT_USER: 'pd_current_user',
   USERS: 'pd_users',
   TEST_SESSIONS: 'pd_test_sessions',
   ALERTS: 'pd_alerts',
+  CAPTURE_PROFILE: 'pd_capture_profile',
+  PREDICTION_QUEUE: 'pd_prediction_queue',
 } as const;
 
 // Helper functions
@@ -82,8 +87,32 @@ export const getDoctors = (): Doctor[] => {
 };
 
 // Test Sessions
+// Sessions saved before predictions carried provenance were all scored by the
+// threshold heuristic, in the browser, with no fallback involved. The heuristic
+// had no calibration before results recorded one.
+const migrateSession = (session: TestSession): TestSession => {
+  const { prediction } = session;
+  if (
+    prediction.source && prediction.modelId && prediction.modelVersion && prediction.degraded !== undefined &&
+    (prediction.calibrated !== undefined || prediction.source !== 'mock')
+  ) {
+    return session;
+  }
+  return {
+    ...session,
+    prediction: {
+      ...prediction,
+      modelId: prediction.modelId ?? thresholdModel.id,
+      modelVersion: prediction.modelVersion ?? thresholdModel.version,
+      source: prediction.source ?? 'mock',
+      calibrated: prediction.calibrated ?? ((prediction.source ?? 'mock') === 'mock' ? false : undefined),
+      degraded: prediction.degraded ?? false,
+    },
+  };
+};
+
 export const getTestSessions = (): TestSession[] => {
-  return getItem<TestSession[]>(STORAGE_KEYS.TEST_SESSIONS, []);
+  return getItem<TestSession[]>(STORAGE_KEYS.TEST_SESSIONS, []).map(migrateSession);
 };
 
 export const getTestSessionsByPatient = (patientId: string): TestSession[] => {
@@ -103,6 +132,10 @@ export const createTestSession = (session: Omit<TestSession, 'id'>): TestSession
   return newSession;
 };
 
+export const getTestSessionByRecording = (recordingId: string): TestSession | undefined => {
+  return getTestSessions().find(s => s.recording.id === recordingId);
+};
+
 export const updateTestSession = (id: string, updates: Partial<TestSession>): TestSession | null => {
   const sessions = getTestSessions();
   const index = sessions.findIndex(s => s.id === id);
@@ -150,6 +183,24 @@ export const markAlertAsRead = (id: string): void => {
   }
 };
 
+// Recording Preferences
+export const getCaptureProfile = (): CaptureProfile => {
+  return getItem<CaptureProfile>(STORAGE_KEYS.CAPTURE_PROFILE, 'clinical');
+};
+
+export const setCaptureProfile = (profile: CaptureProfile): void => {
+  setItem(STORAGE_KEYS.CAPTURE_PROFILE, profile);
+};
+
+// Prediction Queue
+export const getPendingPredictions = (): PendingPrediction[] => {
+  return getItem<PendingPrediction[]>(STORAGE_KEYS.PREDICTION_QUEUE, []);
+};
+
+export const setPendingPredictions = (queue: PendingPrediction[]): void => {
+  setItem(STORAGE_KEYS.PREDICTION_QUEUE, queue);
+};
+
 // Initialize demo data
 export const initializeDemoData = (): void => {
   const users = getAllUsers();
@@ -176,6 +227,7 @@ export const initializeDemoData = (): void => {
       role: 'patient',
       createdAt: new Date().toISOString(),
       dateOfBirth: '1958-03-15',
+      sex: 'male',
       assignedDoctorId: 'demo-doctor-1',
       phoneNumber: '+1 (555) 123-4567',
     },
@@ -186,6 +238,7 @@ export const initializeDemoData = (): void => {
       role: 'patient',
       createdAt: new Date().toISOString(),
       dateOfBirth: '1962-07-22',
+      sex: 'female',
       assignedDoctorId: 'demo-doctor-1',
       phoneNumber: '+1 (555) 234-5678',
     },
@@ -196,6 +249,7 @@ export const initializeDemoData = (): void => {
       role: 'patient',
       createdAt: new Date().toISOString(),
       dateOfBirth: '1955-11-08',
+      sex: 'male',
       assignedDoctorId: 'demo-doctor-1',
       phoneNumber: '+1 (555) 345-6789',
     },
@@ -215,6 +269,7 @@ export const initializeDemoData = (): void => {
       const baseRisk = patientIndex === 2 ? 0.7 : patientIndex === 1 ? 0.45 : 0.25;
       const riskVariation = (Math.random() - 0.5) * 0.15;
       const probability = Math.max(0, Math.min(1, baseRisk + riskVariation - (i * 0.02)));
+      const riskLevel = riskLevelFor(probability);
       
       const session: TestSession = {
         id: `demo-session-${patient.id}-${i}`,
@@ -243,8 +298,7 @@ export const initializeDemoData = (): void => {
           patientId: patient.id,
           analyzedAt: date.toISOString(),
           probability,
-          confidence: 0.85 + Math.random() * 0.1,
-          riskLevel: probability > 0.6 ? 'high' : probability > 0.35 ? 'medium' : 'low',
+          riskLevel,
           featureImportance: [
             { feature: 'Jitter', importance: 0.25, value: 0.5 + Math.random() },
             { feature: 'Shimmer', importance: 0.22, value: 2 + Math.random() * 2 },
@@ -252,11 +306,16 @@ export const initializeDemoData = (): void => {
             { feature: 'Pitch Variation', importance: 0.15, value: 10 + Math.random() * 10 },
             { feature: 'Pitch', importance: 0.12, value: 130 + Math.random() * 30 },
           ],
-          recommendation: probability > 0.6 
+          recommendation: riskLevel === 'high'
             ? 'Schedule a follow-up appointment with your neurologist for further evaluation.'
-            : probability > 0.35
+            : riskLevel === 'medium'
             ? 'Continue regular monitoring. Consider increasing test frequency.'
             : 'Voice patterns are within normal range. Continue regular check-ups.',
+          modelId: thresholdModel.id,
+          modelVersion: thresholdModel.version,
+          source: 'mock',
+          calibrated: false,
+          degraded: false,
         },
         reviewedByDoctor: i > 0,
       };
@@ -295,4 +354,5 @@ export const initializeDemoData = (): void => {
 // Clear all data (for testing)
 export const clearAllData = (): void => {
   Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+  clearRecordingAudio().catch(err => console.error('Failed to clear recording audio:', err));
 };
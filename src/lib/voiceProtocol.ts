@@ -0,0 +1,69 @@
+// Voice test protocol
+// The battery follows common PD voice assessments: sustained vowels for phonation
+// (jitter, shimmer, HNR), rapid /pa-ta-ka/ for articulation (diadochokinesis) and
+// a reading passage for prosody and pausing. Only the sustained /a/ is required,
+// since it is the recording the prediction model is based on.
+
+import { VoiceTaskType } from '@/types';
+
+export interface VoiceTaskDefinition {
+  type: VoiceTaskType;
+  title: string;
+  instruction: string;
+  prompt: string;          // Shown large while recording
+  maxDuration: number;     // Seconds; recording stops automatically after this
+  required: boolean;
+}
+
+// First paragraph of the Rainbow Passage (Fairbanks, 1960)
+export const READING_PASSAGE =
+  'When the sunlight strikes raindrops in the air, they act as a prism and form a rainbow. ' +
+  'The rainbow is a division of white light into many beautiful colors. These take the shape ' +
+  'of a long round arch, with its path high above, and its two ends apparently beyond the horizon. ' +
+  'There is, according to legend, a boiling pot of gold at one end. People look, but no one ever finds it.';
+
+export const VOICE_PROTOCOL: VoiceTaskDefinition[] = [
+  {
+    type: 'sustained-a',
+    title: 'Sustained /a/',
+    instruction: 'Take a deep breath and say "Aahhh" in a steady, comfortable tone for as long as you can, up to 10 seconds.',
+    prompt: 'Aahhh…',
+    maxDuration: 10,
+    required: true,
+  },
+  {
+    type: 'sustained-i',
+    title: 'Sustained /i/',
+    instruction: 'Take a deep breath and say "Eeee" (as in "see") in a steady tone, up to 10 seconds.',
+    prompt: 'Eeee…',
+    maxDuration: 10,
+    required: false,
+  },
+  {
+    type: 'sustained-u',
+    title: 'Sustained /u/',
+    instruction: 'Take a deep breath and say "Oooo" (as in "moon") in a steady tone, up to 10 seconds.',
+    prompt: 'Oooo…',
+    maxDuration: 10,
+    required: false,
+  },
+  {
+    type: 'ddk',
+    title: 'Pa-ta-ka',
+    instruction: 'Repeat "pa-ta-ka" as quickly and clearly as you can, without stopping, for 10 seconds.',
+    prompt: 'pa-ta-ka pa-ta-ka pa-ta-ka…',
+    maxDuration: 10,
+    required: false,
+  },
+  {
+    type: 'reading',
+    title: 'Reading passage',
+    instruction: 'Read the passage aloud at your normal pace and volume. Stop the recording when you are done.',
+    prompt: READING_PASSAGE,
+    maxDuration: 60,
+    required: false,
+  },
+];
+
+export const getVoiceTask = (type: VoiceTaskType): VoiceTaskDefinition =>
+  VOICE_PROTOCOL.find(task => task.type === type) ?? VOICE_PROTOCOL[0];
@@ -0,0 +1,50 @@
+// 16-bit PCM WAV encoding for lossless recording storage
+
+const WAV_HEADER_SIZE = 44;
+
+// Join PCM chunks into one contiguous buffer
+export const concatSamples = (chunks: Float32Array[]): Float32Array => {
+  const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+  const samples = new Float32Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return samples;
+};
+
+// Encode mono float samples in [-1, 1] as a 16-bit little-endian PCM WAV file
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_SIZE + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // fmt chunk: PCM, mono, 16-bit
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+
+  // data chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(WAV_HEADER_SIZE + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
@@ -1,5 +1,8 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { startPredictionQueue } from "@/lib/predictionQueue";
+
+startPredictionQueue();
 
 createRoot(document.getElementById("root")!).render(<App />);
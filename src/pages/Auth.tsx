@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Activity, User, Stethoscope, ArrowLeft } from 'lucide-react';
+import { Sex } from '@/types';
 
 const Auth = () => {
   const navigate = useNavigate();
@@ -24,6 +25,7 @@ const Auth = () => {
   const [signupName, setSignupName] = useState('');
   const [signupRole, setSignupRole] = useState<'patient' | 'doctor'>('patient');
   const [signupDateOfBirth, setSignupDateOfBirth] = useState('');
+  const [signupSex, setSignupSex] = useState<Sex | ''>('');
   const [signupPhone, setSignupPhone] = useState('');
   const [signupSpecialization, setSignupSpecialization] = useState('');
   const [signupLicense, setSignupLicense] = useState('');
@@ -44,6 +46,7 @@ const Auth = () => {
       name: signupName,
       role: signupRole,
       dateOfBirth: signupRole === 'patient' ? signupDateOfBirth : undefined,
+      sex: signupRole === 'patient' && signupSex ? signupSex : undefined,
       phoneNumber: signupRole === 'patient' ? signupPhone : undefined,
       specialization: signupRole === 'doctor' ? signupSpecialization : undefined,
       licenseNumber: signupRole === 'doctor' ? signupLicense : undefined,
@@ -230,6 +233,21 @@ const Auth = () => {
                           onChange={(e) => setSignupDateOfBirth(e.target.value)}
                         />
                       </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="signup-sex">Sex</Label>
+                        <Select value={signupSex} onValueChange={(v) => setSignupSex(v as Sex)}>
+                          <SelectTrigger id="signup-sex">
+                            <SelectValue placeholder="Prefer not to say" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="female">Female</SelectItem>
+                            <SelectItem value="male">Male</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          Optional. Used with your date of birth to pick the healthy voice ranges.
+                        </p>
+                      </div>
                       <div className="space-y-2">
                         <Label htmlFor="signup-phone">Phone Number</Label>
                         <Input
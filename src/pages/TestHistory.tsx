@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useEffect, useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { getTestSessionsByPatient } from '@/lib/storage';
@@ -7,21 +7,58 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { ArrowLeft, Calendar, TrendingUp, TrendingDown, Minus, CheckCircle, AlertTriangle, XCircle, FileDown } from 'lucide-react';
+import { ArrowLeft, Calendar, TrendingUp, TrendingDown, Minus, MinusCircle, CheckCircle, AlertTriangle, XCircle, FileDown, GitCompare, AudioWaveform } from 'lucide-react';
 import { TestSession } from '@/types';
 import { format } from 'date-fns';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { useToast } from '@/hooks/use-toast';
+import PredictionSourceNotice from '@/components/PredictionSourceNotice';
+import { getFailedPrediction } from '@/lib/predictionQueue';
+import { formatProbabilityInterval, UNCALIBRATED_NOTE } from '@/lib/models/common';
+import { buildBaseline } from '@/lib/baseline';
+import SessionComparison from '@/components/SessionComparison';
+import RecordingInspector from '@/components/RecordingInspector';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  classifyFeature,
+  demographicsOf,
+  describeNorms,
+  FeatureStatus,
+  formatFeatureValue,
+  formatMeasure,
+  getNorms,
+  healthyRange,
+  THRESHOLD_FEATURE_INFO,
+  THRESHOLD_FEATURES,
+} from '@/lib/clinicalThresholds';
+
+const FEATURE_STATUS_DISPLAY: Record<FeatureStatus, { status: string; icon: typeof CheckCircle; color: string }> = {
+  normal: { status: 'Normal', icon: CheckCircle, color: 'text-success' },
+  borderline: { status: 'Borderline', icon: Minus, color: 'text-warning' },
+  abnormal: { status: 'Abnormal', icon: XCircle, color: 'text-destructive' },
+  unmeasured: { status: 'Not measured', icon: MinusCircle, color: 'text-muted-foreground' },
+};
+
+// Sessions shown side by side in compare mode
+const MAX_COMPARED = 4;
 
 const TestHistory = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [selectedSession, setSelectedSession] = useState<TestSession | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [inspectedSession, setInspectedSession] = useState<TestSession | null>(null);
+  // Re-read when sessions change in storage while the page is open (manual re-scoring)
+  const [storedSessions, setStoredSessions] = useState<TestSession[]>(() => user ? getTestSessionsByPatient(user.id) : []);
+  useEffect(() => {
+    setStoredSessions(user ? getTestSessionsByPatient(user.id) : []);
+  }, [user]);
 
   const sessions = useMemo(() => {
-    if (!user) return [];
-    return getTestSessionsByPatient(user.id)
+    return storedSessions
       .map(session => ({
         ...session,
         // Fallback to recording.recordedAt if completedAt is missing
@@ -32,7 +69,7 @@ const TestHistory = () => {
         return !isNaN(date.getTime());
       })
       .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime());
-  }, [user]);
+  }, [storedSessions]);
 
   const chartData = useMemo(() => {
     return sessions
@@ -47,6 +84,46 @@ const TestHistory = () => {
       }));
   }, [sessions]);
 
+  const baseline = useMemo(() => buildBaseline(sessions), [sessions]);
+
+  // Oldest first, so the earliest selected test is the reference
+  const comparedSessions = sessions
+    .filter(session => compareIds.includes(session.id))
+    .reverse();
+
+  const toggleCompared = (sessionId: string) => {
+    setCompareIds(ids => ids.includes(sessionId)
+      ? ids.filter(id => id !== sessionId)
+      : ids.length < MAX_COMPARED ? [...ids, sessionId] : ids);
+  };
+
+  const compareSessions = (sessionIds: string[]) => {
+    setCompareIds(sessionIds);
+    setSelectedSession(null);
+    setComparing(true);
+  };
+
+  // Reload after a manual re-scoring retry, keeping the open session in sync
+  const reloadSessions = () => {
+    if (!user) return;
+    const reloaded = getTestSessionsByPatient(user.id);
+    setStoredSessions(reloaded);
+    const updated = selectedSession && reloaded.find(s => s.id === selectedSession.id);
+    if (updated) setSelectedSession({ ...updated, completedAt: selectedSession.completedAt });
+  };
+
+  const exitCompareMode = () => {
+    setCompareMode(false);
+    setCompareIds([]);
+  };
+
+  // Norms as of the selected test, so the patient's age at the time applies
+  const selectedDemographics = selectedSession
+    ? demographicsOf(user, new Date(selectedSession.completedAt || selectedSession.recording.recordedAt))
+    : {};
+  const selectedNorms = getNorms(selectedDemographics);
+  const selectedNormsLabel = describeNorms(selectedDemographics);
+
   const getRiskBadge = (level: string) => {
     switch (level) {
       case 'low':
@@ -60,28 +137,6 @@ const TestHistory = () => {
     }
   };
 
-  const getFeatureStatus = (feature: string, value: number) => {
-    const thresholds: Record<string, { healthy: number; warning: number; inverted?: boolean }> = {
-      jitter: { healthy: 1.04, warning: 1.5 },
-      shimmer: { healthy: 3.81, warning: 5.0 },
-      hnr: { healthy: 20, warning: 15, inverted: true },
-      pitchVariation: { healthy: 15, warning: 8, inverted: true },
-    };
-
-    const t = thresholds[feature];
-    if (!t) return { status: 'normal', icon: CheckCircle, color: 'text-success' };
-
-    if (t.inverted) {
-      if (value >= t.healthy) return { status: 'Normal', icon: CheckCircle, color: 'text-success' };
-      if (value >= t.warning) return { status: 'Borderline', icon: Minus, color: 'text-warning' };
-      return { status: 'Abnormal', icon: XCircle, color: 'text-destructive' };
-    } else {
-      if (value <= t.healthy) return { status: 'Normal', icon: CheckCircle, color: 'text-success' };
-      if (value <= t.warning) return { status: 'Borderline', icon: Minus, color: 'text-warning' };
-      return { status: 'Abnormal', icon: XCircle, color: 'text-destructive' };
-    }
-  };
-
   if (!user) {
     navigate('/auth');
     return null;
@@ -129,7 +184,27 @@ const TestHistory = () => {
 
       {/* Test List */}
       <div className="space-y-3">
-        <h2 className="text-xl font-semibold">All Tests ({sessions.length})</h2>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-xl font-semibold">All Tests ({sessions.length})</h2>
+          {sessions.length > 1 && (compareMode ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-muted-foreground">
+                {compareIds.length} of up to {MAX_COMPARED} selected
+              </span>
+              <Button variant="outline" size="sm" onClick={() => compareSessions([sessions[0].id, sessions[1].id])}>
+                Latest vs previous
+              </Button>
+              <Button size="sm" disabled={compareIds.length < 2} onClick={() => setComparing(true)}>
+                Compare
+              </Button>
+              <Button variant="ghost" size="sm" onClick={exitCompareMode}>Cancel</Button>
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => setCompareMode(true)}>
+              <GitCompare className="h-4 w-4" /> Compare Tests
+            </Button>
+          ))}
+        </div>
         
         {sessions.length === 0 ? (
           <Card>
@@ -144,12 +219,21 @@ const TestHistory = () => {
           sessions.map((session) => (
             <Card 
               key={session.id} 
-              className="cursor-pointer hover:border-primary/50 transition-colors"
-              onClick={() => setSelectedSession(session)}
+              className={`cursor-pointer hover:border-primary/50 transition-colors ${
+                compareMode && compareIds.includes(session.id) ? 'border-primary' : ''
+              }`}
+              onClick={() => compareMode ? toggleCompared(session.id) : setSelectedSession(session)}
             >
               <CardContent className="py-4">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-4">
+                    {compareMode && (
+                      <Checkbox
+                        checked={compareIds.includes(session.id)}
+                        disabled={!compareIds.includes(session.id) && compareIds.length >= MAX_COMPARED}
+                        aria-label="Select for comparison"
+                      />
+                    )}
                     <div className={`p-2 rounded-full ${
                       session.prediction.riskLevel === 'low' ? 'bg-success/10' : 
                       session.prediction.riskLevel === 'medium' ? 'bg-warning/10' : 'bg-destructive/10'
@@ -177,7 +261,15 @@ const TestHistory = () => {
                       <p className="text-2xl font-bold">{Math.round(session.prediction.probability * 100)}%</p>
                       <p className="text-xs text-muted-foreground">Risk Score</p>
                     </div>
-                    {getRiskBadge(session.prediction.riskLevel)}
+                    <div className="flex flex-col items-end gap-1">
+                      {getRiskBadge(session.prediction.riskLevel)}
+                      {session.prediction.degraded && (
+                        <Badge variant="outline" className="text-warning border-warning/50">Fallback</Badge>
+                      )}
+                      {session.prediction.degraded && getFailedPrediction(session.recording.id) && (
+                        <Badge variant="outline" className="text-destructive border-destructive/50">Re-scoring failed</Badge>
+                      )}
+                    </div>
                   </div>
                 </div>
               </CardContent>
@@ -202,26 +294,39 @@ const TestHistory = () => {
                 <div className="text-center">
                   <p className="text-4xl font-bold">{Math.round(selectedSession.prediction.probability * 100)}%</p>
                   <p className="text-sm text-muted-foreground">Risk Score</p>
+                  {selectedSession.prediction.probabilityInterval && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatProbabilityInterval(selectedSession.prediction.probabilityInterval)}
+                    </p>
+                  )}
                 </div>
                 <div className="flex-1">
                   {getRiskBadge(selectedSession.prediction.riskLevel)}
-                  <p className="text-sm text-muted-foreground mt-2">
-                    Confidence: {Math.round(selectedSession.prediction.confidence * 100)}%
-                  </p>
+                  {selectedSession.prediction.confidence !== undefined && (
+                    <p className="text-sm text-muted-foreground mt-2">
+                      Confidence: {Math.round(selectedSession.prediction.confidence * 100)}%
+                    </p>
+                  )}
+                  {selectedSession.prediction.calibrated === false && (
+                    <p className="text-xs text-muted-foreground mt-2">{UNCALIBRATED_NOTE}</p>
+                  )}
                 </div>
               </div>
 
+              <PredictionSourceNotice prediction={selectedSession.prediction} onRetried={reloadSessions} />
+
               {/* Feature Breakdown */}
               <div>
                 <h3 className="font-semibold mb-3">Feature-by-Feature Analysis</h3>
+                {selectedNormsLabel && (
+                  <p className="text-xs text-muted-foreground -mt-2 mb-3">Healthy ranges adjusted for: {selectedNormsLabel}</p>
+                )}
                 <div className="space-y-3">
-                  {[
-                    { key: 'jitter', label: 'Jitter', value: selectedSession.recording.features.jitter, unit: '%', desc: 'Frequency variation (healthy < 1.04%)' },
-                    { key: 'shimmer', label: 'Shimmer', value: selectedSession.recording.features.shimmer, unit: '%', desc: 'Amplitude variation (healthy < 3.81%)' },
-                    { key: 'hnr', label: 'HNR', value: selectedSession.recording.features.hnr, unit: 'dB', desc: 'Harmonics-to-Noise Ratio (healthy > 20dB)' },
-                    { key: 'pitchVariation', label: 'Pitch Variation', value: selectedSession.recording.features.pitchVariation, unit: 'Hz', desc: 'Voice pitch stability (healthy > 15Hz)' },
-                  ].map((feature) => {
-                    const status = getFeatureStatus(feature.key, feature.value);
+                  {THRESHOLD_FEATURES.map((key) => {
+                    const value = selectedSession.recording.features[key];
+                    const info = THRESHOLD_FEATURE_INFO[key];
+                    const feature = { key, label: info.label, value, unit: info.unit, desc: `Healthy range: ${healthyRange(key, selectedNorms)}` };
+                    const status = FEATURE_STATUS_DISPLAY[classifyFeature(key, value, selectedNorms)];
                     const Icon = status.icon;
                     return (
                       <div key={feature.key} className="flex items-center justify-between p-3 rounded-lg border">
@@ -236,7 +341,7 @@ const TestHistory = () => {
                           <p className="text-xs text-muted-foreground mt-1">{feature.desc}</p>
                         </div>
                         <div className="text-right">
-                          <p className="text-lg font-semibold">{feature.value.toFixed(2)}{feature.unit}</p>
+                          <p className="text-lg font-semibold">{formatFeatureValue(key, feature.value?.toFixed(2))}</p>
                         </div>
                       </div>
                     );
@@ -248,7 +353,7 @@ const TestHistory = () => {
               <div className="grid grid-cols-2 gap-3">
                 <div className="p-3 rounded-lg bg-muted">
                   <p className="text-sm text-muted-foreground">Pitch</p>
-                  <p className="text-lg font-semibold">{selectedSession.recording.features.pitch.toFixed(1)} Hz</p>
+                  <p className="text-lg font-semibold">{formatMeasure(selectedSession.recording.features.pitch, 1, ' Hz')}</p>
                 </div>
                 <div className="p-3 rounded-lg bg-muted">
                   <p className="text-sm text-muted-foreground">Duration</p>
@@ -256,6 +361,28 @@ const TestHistory = () => {
                 </div>
               </div>
 
+              {/* Earlier results replaced by re-scoring */}
+              {selectedSession.predictionHistory && selectedSession.predictionHistory.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-3">Result History</h3>
+                  <div className="space-y-2">
+                    {selectedSession.predictionHistory.map(revision => (
+                      <div key={revision.prediction.id} className="p-3 rounded-lg border text-sm">
+                        <div className="flex items-center justify-between">
+                          <span>
+                            {Math.round(revision.prediction.probability * 100)}% ({revision.prediction.riskLevel}) from {revision.prediction.modelId}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            Replaced {format(new Date(revision.replacedAt), 'MMM d, h:mm a')}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">{revision.reason}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Recommendation */}
               <div className="p-4 rounded-lg border-l-4 border-primary bg-primary/5">
                 <h4 className="font-medium mb-2">Recommendation</h4>
@@ -263,7 +390,28 @@ const TestHistory = () => {
               </div>
 
               {/* Download PDF Button */}
-              <DialogFooter>
+              <DialogFooter className="gap-2 sm:flex-col sm:space-x-0">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setInspectedSession(selectedSession);
+                    setSelectedSession(null);
+                  }}
+                  className="w-full gap-2"
+                >
+                  <AudioWaveform className="h-4 w-4" />
+                  Inspect Recording
+                </Button>
+                {sessions.indexOf(selectedSession) < sessions.length - 1 && (
+                  <Button
+                    variant="outline"
+                    onClick={() => compareSessions([selectedSession.id, sessions[sessions.indexOf(selectedSession) + 1].id])}
+                    className="w-full gap-2"
+                  >
+                    <GitCompare className="h-4 w-4" />
+                    Compare with Previous Test
+                  </Button>
+                )}
                 <Button 
                   onClick={() => {
                     if (user && selectedSession) {
@@ -281,6 +429,37 @@ const TestHistory = () => {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Recording Inspector */}
+      <Dialog open={!!inspectedSession} onOpenChange={() => setInspectedSession(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              Recording - {inspectedSession && format(new Date(inspectedSession.completedAt), 'MMM d, yyyy h:mm a')}
+            </DialogTitle>
+          </DialogHeader>
+          {inspectedSession && <RecordingInspector session={inspectedSession} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Comparison Dialog */}
+      <Dialog
+        open={comparing}
+        onOpenChange={open => {
+          setComparing(open);
+          // Comparisons opened from a test's details don't keep their selection
+          if (!open && !compareMode) setCompareIds([]);
+        }}
+      >
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-display">Compare Tests</DialogTitle>
+          </DialogHeader>
+          {comparedSessions.length >= 2 && (
+            <SessionComparison sessions={comparedSessions} baseline={baseline} />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,59 +1,168 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import { useVoiceRecorder } from '@/hooks/useVoiceRecorder';
+import { RecordingResult, useVoiceRecorder } from '@/hooks/useVoiceRecorder';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { getPrediction } from '@/lib/mlService';
-import { createTestSession, createAlert } from '@/lib/storage';
-import { PredictionResult, VoiceFeatures } from '@/types';
-import { Mic, Square, Loader2, CheckCircle, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { enqueuePrediction } from '@/lib/predictionQueue';
+import { createTestSession, createAlert, getCaptureProfile, setCaptureProfile } from '@/lib/storage';
+import { CAPTURE_PROFILES } from '@/lib/captureProfiles';
+import { saveRecordingAudio } from '@/lib/audioStore';
+import { VOICE_PROTOCOL } from '@/lib/voiceProtocol';
+import { demographicsOf } from '@/lib/clinicalThresholds';
+import { getPatientBaseline, PatientBaseline } from '@/lib/baseline';
+import { CaptureProfile, PredictionResult, QualityReport, VoiceFeatures, VoiceRecording as VoiceRecordingData, VoiceTaskType } from '@/types';
+import { Mic, Square, Loader2, CheckCircle, AlertTriangle, ArrowLeft, XCircle, SkipForward, ArrowRight, RotateCcw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import RecordingGuidelines from '@/components/RecordingGuidelines';
 import FeatureBreakdown from '@/components/FeatureBreakdown';
+import LivePitchTrace from '@/components/LivePitchTrace';
+import ProtocolProgress, { TaskStepStatus } from '@/components/ProtocolProgress';
+import TaskResultsSummary from '@/components/TaskResultsSummary';
+import PredictionSourceNotice from '@/components/PredictionSourceNotice';
+import { formatProbabilityInterval, PREDICTION_SOURCE_LABELS, UNCALIBRATED_NOTE } from '@/lib/models/common';
+
+interface CompletedTask {
+  recording: RecordingResult;
+  recordedAt: string;
+}
 
 const VoiceRecording = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { isRecording, duration, audioLevel, startRecording, stopRecording, error } = useVoiceRecorder();
+  const [captureProfile, setCaptureProfileState] = useState<CaptureProfile>(getCaptureProfile);
+  const {
+    isRecording,
+    duration,
+    audioLevel,
+    livePitch,
+    pitchTrace,
+    isExtracting,
+    extractionProgress,
+    startRecording,
+    stopRecording,
+    cancelExtraction,
+    error,
+  } = useVoiceRecorder(captureProfile);
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const isBusy = isExtracting || isAnalyzing;
+  const [stepIndex, setStepIndex] = useState(0);
+  const [completed, setCompleted] = useState<Partial<Record<VoiceTaskType, CompletedTask>>>({});
+  const [skipped, setSkipped] = useState<VoiceTaskType[]>([]);
   const [result, setResult] = useState<PredictionResult | null>(null);
   const [lastFeatures, setLastFeatures] = useState<VoiceFeatures | null>(null);
+  const [lastSessionId, setLastSessionId] = useState<string | null>(null);
+  const [baseline, setBaseline] = useState<PatientBaseline | null>(null);
+  const [taskRecordings, setTaskRecordings] = useState<VoiceRecordingData[]>([]);
+  const [quality, setQuality] = useState<QualityReport | null>(null);
+
+  const task = VOICE_PROTOCOL[stepIndex];
+  const isLastStep = stepIndex === VOICE_PROTOCOL.length - 1;
+  const taskDone = !!completed[task.type];
+
+  const stepStatuses = Object.fromEntries(VOICE_PROTOCOL.map((t, index): [VoiceTaskType, TaskStepStatus] => [
+    t.type,
+    completed[t.type] ? 'done' : skipped.includes(t.type) ? 'skipped' : index === stepIndex ? 'current' : 'pending',
+  ])) as Record<VoiceTaskType, TaskStepStatus>;
+
+  const handleCaptureProfileChange = (value: string) => {
+    const profile = value as CaptureProfile;
+    setCaptureProfileState(profile);
+    setCaptureProfile(profile);
+  };
 
   const handleStartRecording = async () => {
-    setResult(null);
-    setLastFeatures(null);
+    setQuality(null);
     await startRecording();
   };
 
   const handleStopRecording = async () => {
-    const recordingData = await stopRecording();
-    if (!recordingData || !user) return;
+    const recordingData = await stopRecording(task.type);
+    if (!recordingData) return;
+
+    // Quality gate: failed recordings are neither scored nor stored
+    setQuality(recordingData.quality);
+    if (recordingData.quality.status === 'fail') {
+      toast({ title: 'Recording Not Usable', description: 'Please record again following the guidelines.', variant: 'destructive' });
+      return;
+    }
+
+    setCompleted(prev => ({ ...prev, [task.type]: { recording: recordingData, recordedAt: new Date().toISOString() } }));
+  };
+
+  // Stop automatically when the task's timer runs out
+  const stopRecordingRef = useRef(handleStopRecording);
+  stopRecordingRef.current = handleStopRecording;
+  useEffect(() => {
+    if (isRecording && duration >= task.maxDuration) stopRecordingRef.current();
+  }, [isRecording, duration, task.maxDuration]);
+
+  const toVoiceRecording = (type: VoiceTaskType, { recording, recordedAt }: CompletedTask, patientId: string, audioKey?: string): VoiceRecordingData => ({
+    id: crypto.randomUUID(),
+    patientId,
+    task: type,
+    recordedAt,
+    duration: recording.features.duration,
+    audioData: audioKey,
+    features: recording.features,
+    contour: recording.contour,
+    quality: recording.quality,
+    capture: recording.capture,
+    ddk: recording.ddk,
+    speech: recording.speech,
+    status: 'analyzed',
+  });
+
+  // Keep the audio for later re-analysis; the session is still saved if storage fails
+  const storeAudio = async (voiceRecording: VoiceRecordingData, { recording }: CompletedTask) => {
+    try {
+      voiceRecording.audioData = await saveRecordingAudio({
+        recordingId: voiceRecording.id,
+        patientId: voiceRecording.patientId,
+        blob: recording.wav ?? recording.blob,
+        sampleRate: recording.sampleRate ?? undefined,
+      });
+    } catch (err) {
+      console.error('Failed to store recording audio:', err);
+    }
+  };
+
+  const handleFinish = async () => {
+    const primary = completed['sustained-a'];
+    if (!primary || !user) return;
 
     setIsAnalyzing(true);
     try {
-      const recordingId = crypto.randomUUID();
-      const prediction = await getPrediction(recordingData.features, user.id, recordingId);
-      
+      const recordings = VOICE_PROTOCOL
+        .filter(t => completed[t.type])
+        .map(t => toVoiceRecording(t.type, completed[t.type], user.id));
+      const [mainRecording, ...tasks] = recordings;
+
+      const prediction = await getPrediction(primary.recording.features, user.id, mainRecording.id, primary.recording.frames);
+      await Promise.all(recordings.map(r => storeAudio(r, completed[r.task])));
+
       // Save test session
-      createTestSession({
+      const session = createTestSession({
         patientId: user.id,
         completedAt: new Date().toISOString(),
-        recording: {
-          id: recordingId,
-          patientId: user.id,
-          recordedAt: new Date().toISOString(),
-          duration: recordingData.features.duration,
-          features: recordingData.features,
-          status: 'analyzed',
-        },
+        recording: mainRecording,
+        tasks,
         prediction,
       });
 
+      // Retry the configured model in the background when it may yet succeed; the
+      // session is updated when it does
+      if (prediction.degraded && prediction.retryable) {
+        enqueuePrediction(primary.recording.features, user.id, mainRecording.id);
+      }
+
       // Create alert if high risk
       if (prediction.riskLevel === 'high') {
         createAlert({
@@ -65,7 +174,10 @@ const VoiceRecording = () => {
       }
 
       setResult(prediction);
-      setLastFeatures(recordingData.features);
+      setLastFeatures(primary.recording.features);
+      setLastSessionId(session.id);
+      setBaseline(getPatientBaseline(user.id));
+      setTaskRecordings(recordings);
       toast({ title: 'Analysis Complete', description: 'Your voice test has been analyzed successfully.' });
     } catch (err) {
       toast({ title: 'Analysis Failed', description: 'Please try again.', variant: 'destructive' });
@@ -74,6 +186,32 @@ const VoiceRecording = () => {
     }
   };
 
+  const handleNextTask = () => {
+    if (isLastStep) {
+      handleFinish();
+      return;
+    }
+    setQuality(null);
+    setStepIndex(stepIndex + 1);
+  };
+
+  const handleSkipTask = () => {
+    setSkipped(prev => [...prev, task.type]);
+    handleNextTask();
+  };
+
+  const handleRestart = () => {
+    setStepIndex(0);
+    setCompleted({});
+    setSkipped([]);
+    setResult(null);
+    setLastFeatures(null);
+    setLastSessionId(null);
+    setBaseline(null);
+    setTaskRecordings([]);
+    setQuality(null);
+  };
+
   const getRiskColor = (level: string) => {
     switch (level) {
       case 'low': return 'text-success';
@@ -92,49 +230,141 @@ const VoiceRecording = () => {
       {/* Recording Guidelines */}
       {!result && <RecordingGuidelines />}
 
-      <Card>
-        <CardHeader className="text-center">
-          <CardTitle className="font-display text-2xl">Voice Test</CardTitle>
-          <CardDescription>
-            Record a 5-10 second voice sample saying "Aahhh" in a sustained tone
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          {/* Recording Button */}
-          <div className="flex flex-col items-center gap-4">
-            <button
-              onClick={isRecording ? handleStopRecording : handleStartRecording}
-              disabled={isAnalyzing}
-              className={`w-32 h-32 rounded-full flex items-center justify-center transition-all ${
-                isRecording 
-                  ? 'bg-destructive pulse-recording' 
-                  : 'bg-primary hover:bg-primary/90'
-              } ${isAnalyzing ? 'opacity-50 cursor-not-allowed' : ''}`}
-            >
-              {isAnalyzing ? (
-                <Loader2 className="h-12 w-12 text-primary-foreground animate-spin" />
-              ) : isRecording ? (
-                <Square className="h-12 w-12 text-destructive-foreground" />
-              ) : (
-                <Mic className="h-12 w-12 text-primary-foreground" />
+      {!result && (
+        <Card>
+          <CardHeader className="text-center">
+            <CardTitle className="font-display text-2xl">Voice Test</CardTitle>
+            <CardDescription>
+              Task {stepIndex + 1} of {VOICE_PROTOCOL.length}: {task.title}
+              {!task.required && ' (optional)'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ProtocolProgress statuses={stepStatuses} />
+
+            {/* Task Prompt */}
+            <div className="space-y-3 text-center">
+              <p className="text-sm text-muted-foreground">{task.instruction}</p>
+              {(isRecording || task.type === 'reading') && (
+                <div className={`p-4 rounded-lg bg-muted ${task.type === 'reading' ? 'text-left leading-relaxed' : 'text-2xl font-display'}`}>
+                  {task.prompt}
+                </div>
+              )}
+            </div>
+
+            {/* Capture Profile */}
+            <div className="max-w-xs mx-auto space-y-2">
+              <Label htmlFor="capture-profile">Microphone mode</Label>
+              <Select
+                value={captureProfile}
+                onValueChange={handleCaptureProfileChange}
+                disabled={isRecording || isBusy}
+              >
+                <SelectTrigger id="capture-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CAPTURE_PROFILES) as CaptureProfile[]).map(profile => (
+                    <SelectItem key={profile} value={profile}>
+                      {CAPTURE_PROFILES[profile].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{CAPTURE_PROFILES[captureProfile].description}</p>
+            </div>
+
+            {/* Recording Button */}
+            <div className="flex flex-col items-center gap-4">
+              <button
+                onClick={isRecording ? handleStopRecording : handleStartRecording}
+                disabled={isBusy}
+                className={`w-32 h-32 rounded-full flex items-center justify-center transition-all ${
+                  isRecording 
+                    ? 'bg-destructive pulse-recording' 
+                    : 'bg-primary hover:bg-primary/90'
+                } ${isBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {isBusy ? (
+                  <Loader2 className="h-12 w-12 text-primary-foreground animate-spin" />
+                ) : isRecording ? (
+                  <Square className="h-12 w-12 text-destructive-foreground" />
+                ) : (
+                  <Mic className="h-12 w-12 text-primary-foreground" />
+                )}
+              </button>
+              
+              <p className="text-lg font-medium">
+                {isExtracting
+                  ? 'Extracting voice features...'
+                  : isAnalyzing ? 'Analyzing...'
+                  : isRecording ? `Recording: ${duration}s of ${task.maxDuration}s`
+                  : taskDone ? 'Tap to Record Again' : 'Tap to Record'}
+              </p>
+
+              {isExtracting && (
+                <div className="w-full max-w-xs space-y-2">
+                  <Progress value={extractionProgress * 100} className="h-2" />
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-muted-foreground">{Math.round(extractionProgress * 100)}%</p>
+                    <Button variant="ghost" size="sm" onClick={cancelExtraction}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {isRecording && (
+                <div className="w-full max-w-xs">
+                  <Progress value={audioLevel * 100} className="h-2" />
+                  <p className="text-xs text-center text-muted-foreground mt-1">Audio Level</p>
+                </div>
               )}
-            </button>
-            
-            <p className="text-lg font-medium">
-              {isAnalyzing ? 'Analyzing...' : isRecording ? `Recording: ${duration}s` : 'Tap to Record'}
-            </p>
-
-            {isRecording && (
-              <div className="w-full max-w-xs">
-                <Progress value={audioLevel * 100} className="h-2" />
-                <p className="text-xs text-center text-muted-foreground mt-1">Audio Level</p>
+
+              {isRecording && livePitch && <LivePitchTrace trace={pitchTrace} livePitch={livePitch} />}
+            </div>
+
+            {error && <p className="text-destructive text-center text-sm">{error}</p>}
+
+            {/* Recording Quality */}
+            {quality && quality.status !== 'pass' && (
+              <div className={`p-4 rounded-lg border ${quality.status === 'fail' ? 'border-destructive/50 bg-destructive/5' : 'border-warning/50 bg-warning/5'}`}>
+                <div className="flex items-center gap-2 mb-2">
+                  {quality.status === 'fail' ? (
+                    <XCircle className="h-4 w-4 text-destructive" />
+                  ) : (
+                    <AlertTriangle className="h-4 w-4 text-warning" />
+                  )}
+                  <h4 className="font-medium">
+                    {quality.status === 'fail' ? 'Recording could not be analyzed' : 'Recording quality warnings'}
+                  </h4>
+                </div>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {quality.reasons.map(reason => (
+                    <li key={`${reason.metric}-${reason.severity}`}>• {reason.message}</li>
+                  ))}
+                </ul>
               </div>
             )}
-          </div>
 
-          {error && <p className="text-destructive text-center text-sm">{error}</p>}
-        </CardContent>
-      </Card>
+            {/* Step Navigation */}
+            {!isRecording && (
+              <div className="flex justify-center gap-2">
+                {!task.required && !taskDone && (
+                  <Button variant="outline" onClick={handleSkipTask} disabled={isBusy} className="gap-2">
+                    <SkipForward className="h-4 w-4" /> {isLastStep ? 'Skip and Finish' : 'Skip Task'}
+                  </Button>
+                )}
+                {taskDone && (
+                  <Button onClick={handleNextTask} disabled={isBusy} className="gap-2">
+                    {isLastStep ? 'Finish and Analyze' : 'Next Task'} <ArrowRight className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
       {/* Results */}
       {result && (
@@ -159,20 +389,45 @@ const VoiceRecording = () => {
               <div>
                 <p className="text-3xl font-bold">{Math.round(result.probability * 100)}%</p>
                 <p className="text-muted-foreground">Risk Score</p>
+                {result.probabilityInterval && (
+                  <p className="text-xs text-muted-foreground">{formatProbabilityInterval(result.probabilityInterval)}</p>
+                )}
+                {result.calibrated === false && (
+                  <p className="text-xs text-muted-foreground max-w-md">{UNCALIBRATED_NOTE}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {PREDICTION_SOURCE_LABELS[result.source]}: {result.modelId} v{result.modelVersion}
+                </p>
               </div>
             </div>
 
+            <PredictionSourceNotice prediction={result} />
+
             {/* Feature Breakdown */}
-            {lastFeatures && <FeatureBreakdown features={lastFeatures} />}
+            {lastFeatures && (
+              <FeatureBreakdown
+                features={lastFeatures}
+                demographics={demographicsOf(user)}
+                baseline={baseline}
+                sessionId={lastSessionId}
+              />
+            )}
+
+            <TaskResultsSummary recordings={taskRecordings} />
 
             <div className="p-4 rounded-lg bg-muted">
               <h4 className="font-medium mb-2">Recommendation</h4>
               <p className="text-sm text-muted-foreground">{result.recommendation}</p>
             </div>
 
-            <Button className="w-full" onClick={() => navigate('/dashboard/history')}>
-              View All Results
-            </Button>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Button variant="outline" onClick={handleRestart} className="gap-2">
+                <RotateCcw className="h-4 w-4" /> Start New Test
+              </Button>
+              <Button onClick={() => navigate('/dashboard/history')}>
+                View All Results
+              </Button>
+            </div>
           </CardContent>
         </Card>
       )}
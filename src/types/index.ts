@@ -10,14 +10,23 @@ export interface User {
   profileImage?: string;
 }
 
+export type Sex = 'female' | 'male';
+
 export interface Patient extends User {
   role: 'patient';
   dateOfBirth?: string;
+  sex?: Sex;               // Selects sex-specific voice norms
   assignedDoctorId?: string;
   medicalHistory?: string;
   phoneNumber?: string;
 }
 
+// What voice norms are stratified by (see lib/clinicalThresholds.ts)
+export interface Demographics {
+  sex?: Sex;
+  age?: number;            // Years
+}
+
 export interface Doctor extends User {
   role: 'doctor';
   specialization: string;
@@ -27,23 +36,170 @@ export interface Doctor extends User {
 
 // Voice Recording and Analysis Types
 export interface VoiceFeatures {
-  pitch: number;           // Fundamental frequency (F0) in Hz
-  pitchVariation: number;  // Standard deviation of pitch
-  jitter: number;          // Frequency variation (%)
-  shimmer: number;         // Amplitude variation (%)
-  hnr: number;             // Harmonics-to-Noise Ratio (dB)
+  // Pitch, jitter, shimmer and HNR are undefined when the recording has too little voicing to measure them
+  pitch?: number;          // Fundamental frequency (F0) in Hz
+  pitchVariation?: number; // Standard deviation of pitch
+  jitter?: number;         // Local jitter: cycle-to-cycle period variation (%)
+  jitterAbs?: number;      // Absolute jitter (µs)
+  jitterRAP?: number;      // Relative average perturbation, 3-period (%)
+  jitterPPQ5?: number;     // Five-point period perturbation quotient (%)
+  jitterDDP?: number;      // Difference of differences of periods (%)
+  shimmer?: number;        // Local shimmer: cycle-to-cycle amplitude variation (%)
+  shimmerDb?: number;      // Shimmer in dB
+  shimmerAPQ3?: number;    // Three-point amplitude perturbation quotient (%)
+  shimmerAPQ5?: number;    // Five-point amplitude perturbation quotient (%)
+  shimmerAPQ11?: number;   // Eleven-point amplitude perturbation quotient (%)
+  shimmerDDA?: number;     // Difference of differences of amplitudes (%)
+  hnr?: number;            // Harmonics-to-Noise Ratio (dB)
+  nhr?: number;            // Noise-to-Harmonics Ratio
+  rpde?: number;           // Recurrence Period Density Entropy (0-1)
+  dfa?: number;            // Detrended Fluctuation Analysis exponent, logistic-scaled (0-1)
+  ppe?: number;            // Pitch Period Entropy (0-1)
   duration: number;        // Recording duration in seconds
   amplitude: number;       // Average amplitude
-  formants: number[];      // Formant frequencies
+  formants: (number | null)[];        // Median F1-F4 (Hz), null where not found
+  formantStats?: (FormantStats | null)[]; // F1-F4 tracked over voiced frames
+  mfccMean?: number[];     // MFCC 0-12 means over voiced frames
+  mfccSD?: number[];       // MFCC 0-12 standard deviations over voiced frames
+  deltaMfccMean?: number[]; // Delta-MFCC 0-12 means over voiced frames
+  deltaMfccSD?: number[];  // Delta-MFCC 0-12 standard deviations over voiced frames
+  spectralCentroid?: number; // Mean spectral centroid (Hz)
+  spectralFlux?: number;   // Mean frame-to-frame spectral flux (normalized spectra)
+  spectralRolloff?: number; // Mean 85% energy rolloff frequency (Hz)
+  cpp?: number;            // Cepstral Peak Prominence (dB)
+  cpps?: number;           // Smoothed Cepstral Peak Prominence (dB)
+}
+
+// Per-frame MFCC matrix, kept only when requested (too large to store with sessions)
+export interface SpectralFrames {
+  frameStep: number;       // Seconds between frames
+  mfcc: number[][];        // [frame][coefficient]
+  deltaMfcc: number[][];   // [frame][coefficient]
+  voiced: boolean[];       // Frames that count towards the summaries
+}
+
+// Short-time power spectrum for display, computed on demand from stored audio
+export interface Spectrogram {
+  frameStep: number;       // Seconds between frames
+  frameOffset: number;     // Time of the first frame centre (s)
+  frequencyStep: number;   // Hz between bins
+  frames: Float32Array[];  // [frame][bin] power in dB, bins from 0 Hz up to the display limit
+}
+
+// Prosody of connected speech (reading passage). Hypokinetic dysarthria shows up
+// as monopitch, monoloudness and abnormal pausing, none of which a vowel reveals.
+export interface SpeechFeatures {
+  f0SD: number;            // F0 standard deviation around the median (semitones)
+  f0Range: number;         // 5th-95th percentile F0 range (semitones)
+  intensitySD: number;     // Standard deviation of voiced-frame intensity (dB)
+  intensityRange: number;  // 5th-95th percentile intensity range (dB)
+  syllableCount: number;   // Energy-envelope peaks in voiced speech
+  speechRate: number;      // Syllables per second, pauses included
+  articulationRate: number; // Syllables per second, pauses excluded
+  pauseCount: number;      // Silent or unvoiced stretches of at least 250 ms
+  pauseRatio: number;      // Share of the speaking time spent in pauses (0-1)
+  pauseDurations: number[]; // Every pause (s), in order
+  pauseMean: number;       // Seconds
+  pauseMedian: number;     // Seconds
+  pauseSD: number;         // Seconds
+}
+
+export interface FormantStats {
+  frequency: number;       // Median frequency (Hz)
+  frequencySD: number;     // Standard deviation of frequency (Hz)
+  bandwidth: number;       // Median bandwidth (Hz)
+  bandwidthSD: number;     // Standard deviation of bandwidth (Hz)
+}
+
+export type CaptureProfile = 'clinical' | 'conversational';
+
+// Effective microphone track settings (MediaStreamTrack.getSettings) at capture time
+export interface CaptureSettings {
+  profile: CaptureProfile;
+  sampleRate?: number;     // Hz
+  sampleSize?: number;     // Bits
+  channelCount?: number;
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+  deviceId?: string;
+}
+
+export type VoicingLabel = 'voiced' | 'unvoiced' | 'silent';
+
+// Frame-wise F0 and voicing decision from the segmentation stage
+export interface PitchContour {
+  frameStep: number;       // Seconds between frames
+  frameOffset: number;     // Time of the first frame centre (s)
+  f0: number[];            // Hz per frame, 0 where the frame is not voiced
+  voicing: VoicingLabel[];
+}
+
+// Live feedback streamed while recording
+export interface LivePitchFrame {
+  f0: number | null;       // Hz, null while not voiced
+  voiced: boolean;
+  clipping: boolean;       // Input reached full scale since the last frame
+}
+
+// Signal measurements used to judge whether a recording can be analyzed
+export interface SignalMetrics {
+  duration: number;        // Seconds
+  voicedRatio: number;     // Fraction of frames labelled voiced (0-1)
+  glottalCycles: number;   // Glottal cycles available for perturbation measures
+  clippingRatio: number;   // Fraction of samples at full scale (0-1)
+  snr: number | null;      // Voiced level over the noise floor (dB), null without non-voiced frames
+  noiseFloor: number | null; // Background level (dBFS), null without non-voiced frames
+}
+
+export type QualityStatus = 'pass' | 'warn' | 'fail';
+
+export interface QualityReason {
+  metric: keyof SignalMetrics;
+  severity: 'warn' | 'fail';
+  message: string;
+}
+
+export interface QualityReport {
+  status: QualityStatus;
+  reasons: QualityReason[];
+  metrics: SignalMetrics;
+}
+
+// Tasks of the voice test protocol
+export type VoiceTaskType = 'sustained-a' | 'sustained-i' | 'sustained-u' | 'ddk' | 'reading';
+
+// Diadochokinesis: rapid /pa-ta-ka/ repetition
+export interface DDKFeatures {
+  syllableCount: number;
+  rate: number;            // Syllables per second
+  intervalMean: number;    // Mean onset-to-onset interval (ms)
+  intervalCV: number;      // Interval coefficient of variation (%), lower is more regular
+}
+
+// Output of feature extraction for one recording
+export interface VoiceAnalysis {
+  features: VoiceFeatures;
+  contour: PitchContour;
+  metrics: SignalMetrics;
+  ddk?: DDKFeatures;          // DDK task only
+  speech?: SpeechFeatures;    // Reading task only
+  frames?: SpectralFrames;    // Only when the frame matrix was requested
 }
 
 export interface VoiceRecording {
   id: string;
   patientId: string;
+  task?: VoiceTaskType;    // Protocol task; sustained /a/ when absent
   recordedAt: string;
   duration: number;
-  audioData?: string;      // Base64 encoded audio (for demo)
+  audioData?: string;      // Key of the stored audio in the IndexedDB audio store (audioStore.ts)
   features: VoiceFeatures;
+  contour?: PitchContour;
+  quality?: QualityReport;
+  capture?: CaptureSettings;
+  ddk?: DDKFeatures;
+  speech?: SpeechFeatures;
   status: 'pending' | 'analyzed' | 'error';
 }
 
@@ -56,7 +212,8 @@ export interface PredictionResult {
   
   // Prediction scores
   probability: number;     // 0-1 probability of Parkinson's
-  confidence: number;      // Model confidence (0-1)
+  probabilityInterval?: ProbabilityInterval; // Only when the model has a calibration set
+  confidence?: number;     // Model confidence (0-1), as reported by the remote API
   riskLevel: 'low' | 'medium' | 'high';
   
   // Feature importance (for explainability)
@@ -68,26 +225,95 @@ export interface PredictionResult {
   
   // Recommendation
   recommendation: string;
+
+  // Provenance
+  modelId: string;         // Registry id of the model that produced this result
+  modelVersion: string;
+  source: PredictionSource;
+  calibrated?: boolean;    // The probability went through a fitted calibration; unset for remote results
+  degraded: boolean;       // The configured model could not score this recording and a fallback did
+  fallbackReason?: string; // Why the configured model was bypassed, set when degraded
+  retryable?: boolean;     // Set when degraded: the configured model failed transiently and may succeed later
+}
+
+// Where a prediction was computed: the remote API, an in-browser model, or the threshold heuristic
+export type PredictionSource = 'remote' | 'local' | 'mock';
+
+// Maps a model's raw score to a probability. Platt scaling: p = 1 / (1 + exp(slope * score + intercept)).
+// Isotonic: piecewise-linear through (scores[i], probabilities[i]), scores increasing, clamped at the ends.
+export type ModelCalibration =
+  | { method: 'none' }
+  | { method: 'platt'; slope: number; intercept: number }
+  | { method: 'isotonic'; scores: number[]; probabilities: number[] };
+
+// Bootstrap confidence interval of a calibrated probability
+export interface ProbabilityInterval {
+  lower: number;
+  upper: number;
+  level: number;           // Coverage, e.g. 0.95
 }
 
 // Test History
 export interface TestSession {
   id: string;
   patientId: string;
-  recording: VoiceRecording;
+  recording: VoiceRecording;      // Sustained /a/, the recording the prediction is based on
+  tasks?: VoiceRecording[];       // Remaining protocol tasks, in protocol order
   prediction: PredictionResult;
+  predictionHistory?: PredictionRevision[]; // Earlier results this prediction replaced, oldest first
   completedAt: string;
   notes?: string;
   reviewedByDoctor?: boolean;
   doctorNotes?: string;
 }
 
+// Audit entry kept when a session's prediction is replaced
+export interface PredictionRevision {
+  prediction: PredictionResult; // The replaced result
+  replacedAt: string;
+  reason: string;
+}
+
+// A recording waiting to be re-scored by the configured model after a fallback
+export interface PendingPrediction {
+  recordingId: string;
+  patientId: string;
+  features: VoiceFeatures;  // Spectral frames are not kept; they are too large for local storage
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  failedAt?: string;        // Set when re-scoring gave up; the entry is kept, but no longer retried
+}
+
+// Longitudinal trend of a series of test results (lib/longitudinal.ts)
+export type TrendDirection = 'improving' | 'stable' | 'worsening';
+
+export interface Trend {
+  direction: TrendDirection; // 'stable' unless the trend is significant
+  significant: boolean;      // Mann-Kendall test and regression slope interval agree
+  sufficient: boolean;       // Enough tests to test for a trend at all
+  n: number;
+  pValue: number | null;     // Two-sided Mann-Kendall p-value, null when insufficient
+  slopePerWeek: number | null;  // Regression slope in units of the series per week
+  slopeInterval: { lower: number; upper: number; level: number } | null; // Per week
+  changePoint?: TrendChangePoint; // Only when CUSUM finds a significant shift
+}
+
+// A shift in the series found by CUSUM change-point analysis
+export interface TrendChangePoint {
+  at: string;              // Date of the first test after the shift
+  before: number;          // Mean before and after the shift
+  after: number;
+  confidence: number;      // Share of shuffled series with a smaller CUSUM range (0-1)
+}
+
 // Dashboard Statistics
 export interface PatientStats {
   totalTests: number;
   lastTestDate?: string;
   averageRiskScore: number;
-  riskTrend: 'improving' | 'stable' | 'worsening';
+  riskTrend: Trend;
   testsThisMonth: number;
 }
 
@@ -110,15 +336,11 @@ export interface Alert {
   testSessionId?: string;
 }
 
-// API Response Types (for future ML backend integration)
+// ML API request; the wire format is defined in lib/models/remoteContract.ts
 export interface MLPredictionRequest {
   features: VoiceFeatures;
+  frames?: SpectralFrames;
   patientId: string;
   recordingId: string;
 }
 
-export interface MLPredictionResponse {
-  success: boolean;
-  prediction?: PredictionResult;
-  error?: string;
-}
@@ -0,0 +1,44 @@
+// Dedicated worker that runs DSPProcessor on decoded PCM off the main thread.
+// Also computes display spectrograms, which are too slow for the main thread on long recordings.
+
+import { computeSpectrogram, DSPProcessor, downsampleForAnalysis } from '@/lib/dsp';
+import { Spectrogram, VoiceAnalysis, VoiceTaskType } from '@/types';
+
+export interface DSPWorkerRequest {
+  samples: Float32Array;
+  sampleRate: number;
+  task?: VoiceTaskType;
+  includeFrames?: boolean;
+  spectrogram?: { maxFrequency: number };  // Compute a display spectrogram instead of the analysis
+}
+
+export type DSPWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'result'; analysis: VoiceAnalysis }
+  | { type: 'spectrogram'; spectrogram: Spectrogram }
+  | { type: 'error'; error: string };
+
+const post = (message: DSPWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<DSPWorkerRequest>) => {
+  try {
+    if (event.data.spectrogram) {
+      const { samples, sampleRate, spectrogram: { maxFrequency } } = event.data;
+      const spectrogram = computeSpectrogram(samples, sampleRate, maxFrequency);
+      post({ type: 'spectrogram', spectrogram }, spectrogram.frames.map(frame => frame.buffer));
+      return;
+    }
+
+    const { task, includeFrames } = event.data;
+    const { samples, sampleRate } = downsampleForAnalysis(event.data.samples, event.data.sampleRate);
+    const processor = new DSPProcessor(sampleRate);
+    const analysis = processor.analyze(samples, {
+      onProgress: progress => post({ type: 'progress', progress }),
+      task,
+      includeFrames,
+    });
+    post({ type: 'result', analysis });
+  } catch (err) {
+    post({ type: 'error', error: err instanceof Error ? err.message : 'Feature extraction failed' });
+  }
+};
@@ -0,0 +1,62 @@
+// AudioWorklet that estimates F0, voicing and clipping on the live microphone
+// signal and posts a LivePitchFrame to the main thread roughly every 23 ms
+
+import { DSPProcessor, PITCH_FRAME_DURATION } from '@/lib/dsp';
+import { LivePitchFrame } from '@/types';
+
+// AudioWorkletGlobalScope is not part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+// Sized in seconds: the clinical profile may run the context at 96 kHz
+const FRAME_SIZE = Math.round(PITCH_FRAME_DURATION * sampleRate);
+const HOP_SIZE = Math.round(0.023 * sampleRate);
+const CLIPPING_LEVEL = 0.99;
+const SILENCE_RMS = 0.005;
+
+class LivePitchProcessor extends AudioWorkletProcessor {
+  private dsp = new DSPProcessor(sampleRate);
+  private buffer = new Float32Array(FRAME_SIZE);
+  private filled = 0;
+  private sinceLastFrame = 0;
+  private clipped = false;
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      if (Math.abs(channel[i]) >= CLIPPING_LEVEL) this.clipped = true;
+    }
+
+    // Slide the analysis window
+    const shift = Math.max(0, this.filled + channel.length - FRAME_SIZE);
+    if (shift > 0) this.buffer.copyWithin(0, shift, this.filled);
+    this.filled -= shift;
+    this.buffer.set(channel, this.filled);
+    this.filled += channel.length;
+    this.sinceLastFrame += channel.length;
+
+    if (this.filled === FRAME_SIZE && this.sinceLastFrame >= HOP_SIZE) {
+      this.sinceLastFrame = 0;
+      this.port.postMessage(this.analyzeFrame());
+      this.clipped = false;
+    }
+
+    return true;
+  }
+
+  private analyzeFrame(): LivePitchFrame {
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) energy += this.buffer[i] * this.buffer[i];
+    const silent = Math.sqrt(energy / FRAME_SIZE) < SILENCE_RMS;
+
+    const { frequency, voiced } = silent ? { frequency: 0, voiced: false } : this.dsp.estimatePitch(this.buffer);
+    return { f0: voiced ? frequency : null, voiced, clipping: this.clipped };
+  }
+}
+
+registerProcessor('live-pitch', LivePitchProcessor);
@@ -0,0 +1,67 @@
+// AudioWorklet that forwards the raw microphone PCM to the main thread in
+// fixed-size chunks, so the recording can be kept losslessly alongside the
+// MediaRecorder output
+
+// AudioWorkletGlobalScope is not part of the DOM typings
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+// About 93 ms at 44.1 kHz; keeps message traffic low without delaying stop much
+const CHUNK_SIZE = 4096;
+
+export type PCMCaptureCommand = 'pause' | 'resume' | 'flush';
+
+export type PCMCaptureMessage =
+  | { type: 'chunk'; samples: Float32Array }
+  | { type: 'flushed' };
+
+class PCMCaptureProcessor extends AudioWorkletProcessor {
+  private buffer = new Float32Array(CHUNK_SIZE);
+  private filled = 0;
+  private paused = false;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<PCMCaptureCommand>) => {
+      switch (event.data) {
+        case 'pause':
+          this.paused = true;
+          break;
+        case 'resume':
+          this.paused = false;
+          break;
+        case 'flush':
+          this.postChunk();
+          this.port.postMessage({ type: 'flushed' } satisfies PCMCaptureMessage);
+          break;
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel || this.paused) return true;
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(CHUNK_SIZE - this.filled, channel.length - offset);
+      this.buffer.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === CHUNK_SIZE) this.postChunk();
+    }
+
+    return true;
+  }
+
+  private postChunk() {
+    if (this.filled === 0) return;
+    const samples = this.buffer.slice(0, this.filled);
+    this.filled = 0;
+    this.port.postMessage({ type: 'chunk', samples } satisfies PCMCaptureMessage, [samples.buffer]);
+  }
+}
+
+registerProcessor('pcm-capture', PCMCaptureProcessor);